@@ -10,6 +10,7 @@ import {
   getManyViaOrThrow,
 } from "convex-helpers/server/relationships";
 import { asyncMap } from "convex-helpers";
+import { load } from "./schema";
 
 export const relationshipTest = mutation({
   args: {},
@@ -75,6 +76,10 @@ export const relationshipTest = mutation({
       user2._id
     );
     assertLength(sessions2, 1);
+    const loaded = await load(ctx.db, user2, {
+      sessions: { _limit: 1 },
+    });
+    assertLength(loaded.sessions, 1);
     // const userSessions = await ctx.db.query("join_table_example").collect();
     // const userIds = userSessions.map((edge) => edge.userId);
     (await getAllOrThrow(ctx.db, userIds)).map(assertNotNull);
@@ -1,6 +1,7 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { Table } from "convex-helpers/server";
+import { defineRelationships } from "convex-helpers/server/relationships";
 
 const Users = Table("users", {
   name: v.string(),
@@ -34,3 +35,10 @@ const s = defineSchema({
 });
 
 export default s;
+
+export const { load } = defineRelationships(s, {
+  users: (r) => ({
+    sessions: r.via("sessions", "join_table_example", "sessionId", "userId"),
+  }),
+  join_table_example: (r) => ({ user: r.one("users", "userId") }),
+});
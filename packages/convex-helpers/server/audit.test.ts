@@ -0,0 +1,117 @@
+import { describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import {
+  REDACTED,
+  getActorHistory,
+  getDocumentHistory,
+  wrapDatabaseWriterWithAudit,
+} from "./audit";
+
+const setup = (options: { diff?: boolean } = {}) => {
+  const raw = fakeDb({ auditLog: { docId: ["docId"], actor: ["actor"] } });
+  const actor = vi.fn(() => "alice");
+  const db = wrapDatabaseWriterWithAudit({}, raw, {
+    actor,
+    functionName: "users:update",
+    tables: { users: { redact: ["password"] }, posts: {} },
+    ...options,
+  });
+  const log = () =>
+    (raw.tables.auditLog ?? []).map(
+      ({ _id, _creationTime, ...entry }) => entry
+    );
+  return { raw, db, actor, log };
+};
+
+describe("wrapDatabaseWriterWithAudit", () => {
+  test("records each write with snapshots", async () => {
+    const { db, log } = setup();
+    const id = await db.insert("posts", { title: "a" });
+    await db.patch(id, { title: "b" });
+    await db.replace(id, { title: "c" });
+    await db.delete(id);
+    const entry = { docId: id, actor: "alice", functionName: "users:update" };
+    expect(log()).toEqual([
+      { ...entry, operation: "insert", table: "posts", after: { title: "a" } },
+      {
+        ...entry,
+        operation: "patch",
+        table: "posts",
+        before: { title: "a" },
+        after: { title: "b" },
+      },
+      {
+        ...entry,
+        operation: "replace",
+        table: "posts",
+        before: { title: "b" },
+        after: { title: "c" },
+      },
+      { ...entry, operation: "delete", table: "posts", before: { title: "c" } },
+    ]);
+  });
+
+  test("redacts fields of listed tables", async () => {
+    const { db, log } = setup();
+    const id = await db.insert("users", { name: "a", password: "secret" });
+    await db.patch(id, { password: "other" });
+    expect(log()[0].after).toEqual({ name: "a", password: REDACTED });
+    expect(log()[1].before).toEqual({ name: "a", password: REDACTED });
+    expect(log()[1].after).toEqual({ name: "a", password: REDACTED });
+  });
+
+  test("records changed fields in diff mode", async () => {
+    const { db, log } = setup({ diff: true });
+    const id = await db.insert("users", { name: "a", password: "secret" });
+    await db.patch(id, { name: "b", password: "other", age: 3 });
+    await db.patch(id, { name: "b" });
+    expect(log()[1].changes).toEqual([
+      { field: "name", before: "a", after: "b" },
+      { field: "password", before: REDACTED, after: REDACTED },
+      { field: "age", after: 3 },
+    ]);
+    expect(log()[1].before).toBeUndefined();
+    expect(log()[2].changes).toEqual([]);
+  });
+
+  test("doesn't know the table of unlisted documents", async () => {
+    const { raw, db, log } = setup();
+    const id = await raw.insert("comments", { password: "x" });
+    await db.patch(id, { password: "y" });
+    expect(log()[0].table).toBeUndefined();
+    expect(log()[0].after).toEqual({ password: "y" });
+  });
+
+  test("looks up the actor once", async () => {
+    const { db, actor } = setup();
+    await db.insert("posts", { title: "a" });
+    await db.insert("posts", { title: "b" });
+    expect(actor).toHaveBeenCalledTimes(1);
+  });
+
+  test("doesn't record writes to the audit log", async () => {
+    const { db, log } = setup();
+    await db.insert("auditLog" as any, { operation: "insert", docId: "x" });
+    expect(log()).toHaveLength(1);
+  });
+});
+
+describe("history", () => {
+  test("pages through a document's and an actor's changes", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("posts", { title: "a" });
+    await db.patch(id, { title: "b" });
+    await db.insert("posts", { title: "other" });
+    const history = await getDocumentHistory(raw, id, {
+      numItems: 10,
+      cursor: null,
+    });
+    expect(history.page.map((e) => e.operation)).toEqual(["patch", "insert"]);
+    const actor = await getActorHistory(raw, "alice", {
+      numItems: 2,
+      cursor: null,
+    });
+    expect(actor.page.map((e) => e.after?.title)).toEqual(["other", "b"]);
+    expect(actor.isDone).toBe(false);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * An audit log of database writes: who changed which document, and how.
+ *
+ * Wrap `ctx.db` in your custom mutations, and every insert, patch, replace,
+ * and delete is recorded in the same transaction:
+ *
+ * ```js
+ * // convex/schema.ts
+ * export default defineSchema({ ...auditTables, ...otherTables });
+ *
+ * // convex/lib/functions.ts
+ * const auditedMutation = customMutation(
+ *   mutation,
+ *   customCtx(async (ctx) => {
+ *     const user = await getUser(ctx);
+ *     return {
+ *       user,
+ *       db: wrapDatabaseWriterWithAudit({ user }, ctx.db, {
+ *         actor: ({ user }) => user._id,
+ *         tables: { users: { redact: ["passwordHash"] }, posts: {} },
+ *       }),
+ *     };
+ *   })
+ * );
+ * ```
+ */
+import {
+  DataModelFromSchemaDefinition,
+  DocumentByName,
+  GenericDataModel,
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  PaginationOptions,
+  PaginationResult,
+  QueryInitializer,
+  SchemaDefinition,
+  TableNamesInDataModel,
+  defineTable,
+} from "convex/server";
+import { GenericId, Infer, Value, convexToJson, v } from "convex/values";
+
+const auditLogFields = {
+  operation: v.union(
+    v.literal("insert"),
+    v.literal("patch"),
+    v.literal("replace"),
+    v.literal("delete")
+  ),
+  // Only known for tables listed in the options, or for inserts.
+  table: v.optional(v.string()),
+  docId: v.string(),
+  actor: v.optional(v.string()),
+  functionName: v.optional(v.string()),
+  // Snapshots of the document, without system fields.
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+  // The fields that changed, if the `diff` option is set.
+  changes: v.optional(
+    v.array(
+      v.object({
+        field: v.string(),
+        before: v.optional(v.any()),
+        after: v.optional(v.any()),
+      })
+    )
+  ),
+};
+
+/**
+ * The table audit log entries are stored in.
+ * Spread it into your schema: `defineSchema({ ...auditTables, ... })`.
+ */
+export const auditTables = {
+  auditLog: defineTable(auditLogFields)
+    .index("docId", ["docId"])
+    .index("actor", ["actor"]),
+};
+
+type AuditDataModel = DataModelFromSchemaDefinition<
+  SchemaDefinition<typeof auditTables, true>
+>;
+
+/**
+ * An entry in the audit log.
+ */
+export type AuditLogEntry = DocumentByName<AuditDataModel, "auditLog">;
+
+export type AuditOperation = Infer<typeof auditLogFields.operation>;
+
+/**
+ * The value recorded in place of redacted fields.
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Options for `wrapDatabaseWriterWithAudit`.
+ */
+export type AuditOptions<Ctx, DataModel extends GenericDataModel> = {
+  /**
+   * Who is making the change, e.g. the user's ID. Called at most once.
+   */
+  actor: (
+    ctx: Ctx
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * The function making the change, e.g. "posts:update".
+   * Convex doesn't tell a function its own name, so pass it in if you want
+   * it recorded.
+   */
+  functionName?: string;
+  /**
+   * Per-table options. List every table you write to, so its name can be
+   * recorded for patches, replaces, and deletes.
+   * - `redact`: Fields to record as "[REDACTED]" instead of their value.
+   */
+  tables?: Partial<{
+    [T in TableNamesInDataModel<DataModel>]: AuditTableOptions<DataModel, T>;
+  }>;
+  /**
+   * Record only the fields that changed, instead of before and after
+   * snapshots of the whole document.
+   */
+  diff?: boolean;
+};
+
+/**
+ * Options for one table in `AuditOptions`.
+ */
+export type AuditTableOptions<
+  DataModel extends GenericDataModel,
+  TableName extends TableNamesInDataModel<DataModel>
+> = {
+  redact?: (keyof DocumentByName<DataModel, TableName> & string)[];
+};
+
+/**
+ * Wrap a database writer to record every write in the audit log.
+ *
+ * Note: Writes to the audit log itself aren't recorded.
+ * @param ctx The ctx to pass to the `actor` option.
+ * @param db The database writer to wrap, e.g. `ctx.db`.
+ * @param options Who the actor is, and what to record.
+ * @returns A database writer with the same interface as `db`.
+ */
+export function wrapDatabaseWriterWithAudit<
+  Ctx,
+  DataModel extends GenericDataModel
+>(
+  ctx: Ctx,
+  db: GenericDatabaseWriter<DataModel>,
+  options: AuditOptions<Ctx, DataModel>
+): GenericDatabaseWriter<DataModel> {
+  return new AuditWriter(ctx, db, options);
+}
+
+/**
+ * Page through the history of a document, newest first.
+ *
+ * @param db The database to read from, e.g. `ctx.db`.
+ * @param docId The ID of the document.
+ * @param paginationOpts From the client, as with any paginated query.
+ * @returns A page of audit log entries for the document.
+ */
+export async function getDocumentHistory(
+  db: GenericDatabaseReader<any>,
+  docId: GenericId<any>,
+  paginationOpts: PaginationOptions
+): Promise<PaginationResult<AuditLogEntry>> {
+  return auditDb(db)
+    .query("auditLog")
+    .withIndex("docId", (q) => q.eq("docId", docId))
+    .order("desc")
+    .paginate(paginationOpts);
+}
+
+/**
+ * Page through the changes made by an actor, newest first.
+ *
+ * @param db The database to read from, e.g. `ctx.db`.
+ * @param actor The actor, as returned by the `actor` option.
+ * @param paginationOpts From the client, as with any paginated query.
+ * @returns A page of audit log entries made by the actor.
+ */
+export async function getActorHistory(
+  db: GenericDatabaseReader<any>,
+  actor: string,
+  paginationOpts: PaginationOptions
+): Promise<PaginationResult<AuditLogEntry>> {
+  return auditDb(db)
+    .query("auditLog")
+    .withIndex("actor", (q) => q.eq("actor", actor))
+    .order("desc")
+    .paginate(paginationOpts);
+}
+
+// Your DataModel includes the auditLog table if you've added it to your
+// schema, but we can't check that here.
+function auditDb<DB extends GenericDatabaseReader<any>>(db: DB) {
+  return db as unknown as DB extends GenericDatabaseWriter<any>
+    ? GenericDatabaseWriter<AuditDataModel>
+    : GenericDatabaseReader<AuditDataModel>;
+}
+
+type Doc = Record<string, any>;
+type Table<DataModel extends GenericDataModel> =
+  TableNamesInDataModel<DataModel>;
+
+class AuditWriter<Ctx, DataModel extends GenericDataModel>
+  implements GenericDatabaseWriter<DataModel>
+{
+  ctx: Ctx;
+  db: GenericDatabaseWriter<DataModel>;
+  system: GenericDatabaseWriter<DataModel>["system"];
+  options: AuditOptions<Ctx, DataModel>;
+  actor?: Promise<string | null | undefined>;
+
+  constructor(
+    ctx: Ctx,
+    db: GenericDatabaseWriter<DataModel>,
+    options: AuditOptions<Ctx, DataModel>
+  ) {
+    this.ctx = ctx;
+    this.db = db;
+    this.system = db.system;
+    this.options = options;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  tableName(id: GenericId<string>): Table<DataModel> | null {
+    const tableNames = Object.keys(this.options.tables ?? {});
+    for (const tableName of tableNames as Table<DataModel>[]) {
+      if (this.db.normalizeId(tableName, id)) {
+        return tableName;
+      }
+    }
+    return null;
+  }
+
+  // Tables not listed in the options, or not known, have nothing redacted.
+  redacted(table: Table<DataModel> | null): string[] {
+    if (table === null) {
+      return [];
+    }
+    return this.options.tables?.[table]?.redact ?? [];
+  }
+
+  snapshot(table: Table<DataModel> | null, doc: Doc | null): Doc | undefined {
+    if (doc === null) {
+      return undefined;
+    }
+    const { _id, _creationTime, ...fields } = doc;
+    for (const field of this.redacted(table)) {
+      if (fields[field] !== undefined) {
+        fields[field] = REDACTED;
+      }
+    }
+    return fields;
+  }
+
+  changes(
+    table: Table<DataModel> | null,
+    before: Doc | null,
+    after: Doc | null
+  ) {
+    const { _id, _creationTime, ...beforeFields } = before ?? {};
+    const { _id: _, _creationTime: __, ...afterFields } = after ?? {};
+    const redacted = this.redacted(table);
+    // Redacted fields are compared before redacting, so changes to them are
+    // still recorded, without their values.
+    return diff(beforeFields, afterFields).map((change) =>
+      redacted.includes(change.field)
+        ? {
+            field: change.field,
+            before: change.before === undefined ? undefined : REDACTED,
+            after: change.after === undefined ? undefined : REDACTED,
+          }
+        : change
+    );
+  }
+
+  async record(
+    operation: AuditOperation,
+    table: Table<DataModel> | null,
+    docId: GenericId<any>,
+    before: Doc | null,
+    after: Doc | null
+  ) {
+    if (table === "auditLog") {
+      return;
+    }
+    if (this.actor === undefined) {
+      this.actor = Promise.resolve(this.options.actor(this.ctx));
+    }
+    const actor = (await this.actor) ?? undefined;
+    await auditDb(this.db).insert("auditLog", {
+      operation,
+      table: table ?? undefined,
+      docId,
+      actor,
+      functionName: this.options.functionName,
+      ...(this.options.diff
+        ? { changes: this.changes(table, before, after) }
+        : {
+            before: this.snapshot(table, before),
+            after: this.snapshot(table, after),
+          }),
+    });
+  }
+
+  async insert<TableName extends string>(
+    table: TableName,
+    value: any
+  ): Promise<any> {
+    const id = await this.db.insert(table, value);
+    await this.record("insert", table as Table<DataModel>, id, null, value);
+    return id;
+  }
+
+  async patch<TableName extends string>(
+    id: GenericId<TableName>,
+    value: Partial<any>
+  ): Promise<void> {
+    const before = await this.db.get(id);
+    await this.db.patch(id, value);
+    const after = await this.db.get(id);
+    await this.record("patch", this.tableName(id), id, before, after);
+  }
+
+  async replace<TableName extends string>(
+    id: GenericId<TableName>,
+    value: any
+  ): Promise<void> {
+    const before = await this.db.get(id);
+    await this.db.replace(id, value);
+    const after = await this.db.get(id);
+    await this.record("replace", this.tableName(id), id, before, after);
+  }
+
+  async delete(id: GenericId<string>): Promise<void> {
+    const before = await this.db.get(id);
+    await this.db.delete(id);
+    await this.record("delete", this.tableName(id), id, before, null);
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.db.get(id);
+  }
+
+  query<TableName extends string>(tableName: TableName): QueryInitializer<any> {
+    return this.db.query(tableName);
+  }
+}
+
+function diff(before: Doc, after: Doc) {
+  const changes = [];
+  for (const field of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    if (!sameValue(before[field], after[field])) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  return changes;
+}
+
+function sameValue(a: Value | undefined, b: Value | undefined) {
+  if (a === undefined || b === undefined) {
+    return a === b;
+  }
+  return JSON.stringify(convexToJson(a)) === JSON.stringify(convexToJson(b));
+}
@@ -1,6 +1,22 @@
 import { v } from "convex/values";
-import { queryGeneric as query } from "convex/server";
-import { customCtx, customQuery } from "./customFunctions";
+import { describe, expect, test } from "vitest";
+import {
+  DataModelFromSchemaDefinition,
+  GenericActionCtx,
+  defineSchema,
+  defineTable,
+  httpActionGeneric as httpAction,
+  internalQueryGeneric as internalQuery,
+  queryGeneric as query,
+} from "convex/server";
+import {
+  composeMods,
+  customCtx,
+  customHttpAction,
+  customQuery,
+  customQueryWithInternal,
+} from "./customFunctions";
+import { defaulted, transformed } from "./validators";
 
 /**
  * Adding ctx
@@ -171,6 +187,384 @@ const never: never = null as never;
 // we expect the never, so should be sufficient.
 queryMatches(badRedefine, { b: 3, a: never }, { argsA: "" }); // !!!
 
+/**
+ * Composing mods: later mods see earlier ctx, args and ctx are merged.
+ */
+const composed = customQuery(
+  query,
+  composeMods(
+    customCtx(() => ({ a: "hi" })),
+    {
+      args: { b: v.number() },
+      input: async (ctx, { b }) => ({ ctx: { ab: ctx.a + b }, args: {} }),
+    },
+    {
+      args: { c: v.string() },
+      input: async (_ctx, { c }) => ({ ctx: {}, args: { c: c.length } }),
+    }
+  )
+);
+const compose = composed({
+  args: {},
+  handler: async (ctx, args) => {
+    args.c.toFixed; // !!!
+    return { ctxA: ctx.a, ctxAB: ctx.ab, argsC: args.c };
+  },
+});
+queryMatches(
+  compose,
+  { b: 1, c: "" },
+  { ctxA: "", ctxAB: "", argsC: 0 } // !!!
+);
+
+/**
+ * Validating the return value narrows the output type.
+ */
+const withReturns = addCtxArg({
+  args: {},
+  meta: { description: "Returns ctx.a", tags: ["test"] },
+  handler: async (ctx) => {
+    return { ctxA: ctx.a };
+  },
+  returns: v.object({ ctxA: v.string(), extra: v.optional(v.number()) }),
+});
+const returned: { ctxA: string; extra?: number } = { ctxA: "" };
+queryMatches(withReturns, {}, returned); // !!!
+
+/**
+ * Mods can return lifecycle hooks along with ctx and args.
+ */
+const withHooks = customQuery(query, {
+  args: {},
+  input: async () => ({
+    ctx: { a: "hi" },
+    args: {},
+    onSuccess: (result: { ctxA: string }) => ({ ...result, ctxA: "bye" }),
+    finally: () => {},
+    replaceHandler: () => ({ ctxA: "cached" }),
+  }),
+});
+const hooked = withHooks({
+  args: {},
+  handler: async (ctx) => {
+    return { ctxA: ctx.a };
+  },
+});
+queryMatches(hooked, {}, { ctxA: "" });
+
+/**
+ * Defaults and transforms: optional for the client, post-default for handler.
+ */
+const withDefaults = customQuery(query, {
+  args: { email: transformed(v.string(), (s) => s.toLowerCase()) },
+  input: async (_ctx, { email }) => ({ ctx: { email }, args: {} }),
+});
+const defaults = withDefaults({
+  args: {
+    limit: defaulted(v.number(), 20),
+    name: transformed(v.optional(v.string()), (s) => s.trim().length),
+  },
+  handler: async (ctx, args) => {
+    assert<Equals<typeof args.limit, number>>(); // !!!
+    assert<Equals<typeof args.name, number | undefined>>(); // !!!
+    return { ctxEmail: ctx.email, limit: args.limit };
+  },
+});
+queryMatches(defaults, { email: "" }, { ctxEmail: "", limit: 0 }); // !!!
+
+/**
+ * httpActions can add to ctx from the request, or respond early.
+ */
+const authedHttpAction = customHttpAction(httpAction, {
+  input: async (_ctx, request) => {
+    const token = request.headers.get("Authorization");
+    if (!token) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    return { ctx: { token } };
+  },
+});
+authedHttpAction(async (ctx) => {
+  assert<Equals<typeof ctx.token, string>>(); // !!!
+  return new Response(ctx.token);
+});
+// The ctx is typed with the data model of the mod's ctx.
+const postsSchema = defineSchema({
+  posts: defineTable({ title: v.string() }),
+});
+type PostsDataModel = DataModelFromSchemaDefinition<typeof postsSchema>;
+customHttpAction(httpAction, {
+  input: (_ctx: GenericActionCtx<PostsDataModel>) => ({ ctx: {} }),
+})(async (ctx) => {
+  assert<Equals<Parameters<typeof ctx.vectorSearch>[0], "posts">>(); // !!!
+  return new Response();
+});
+
+/**
+ * Public and internal variants share a handler, but not their mod's args.
+ */
+const userQuery = customQueryWithInternal(
+  query,
+  internalQuery,
+  {
+    args: { sessionId: v.string() },
+    input: async (_ctx, { sessionId }) => ({
+      ctx: { userId: sessionId },
+      args: {},
+    }),
+  },
+  {
+    args: { userId: v.string() },
+    input: async (_ctx, { userId }) => ({ ctx: { userId }, args: {} }),
+  }
+);
+const { public: publicUser, internal: internalUser } = userQuery({
+  args: { a: v.number() },
+  handler: async (ctx, args) => {
+    return { userId: ctx.userId, a: args.a };
+  },
+});
+queryMatches(publicUser, { sessionId: "", a: 1 }, { userId: "", a: 1 }); // !!!
+queryMatches(internalUser, { userId: "", a: 1 }, { userId: "", a: 1 }); // !!!
+assert<Equals<(typeof internalUser)["isInternal"], true>>(); // !!!
+
+/**
+ * Runtime behavior
+ */
+
+// A builder that returns the definition, so tests can call its handler.
+const passthrough = ((fn: any) => fn) as unknown as typeof query;
+
+describe("returns validation", () => {
+  const noOp = customQuery(
+    passthrough,
+    customCtx(() => ({}))
+  );
+
+  test("checks the return value of functions with args", async () => {
+    const ok: any = noOp({
+      args: {},
+      returns: v.string(),
+      handler: async () => "hi",
+    });
+    expect(await ok.handler({}, {})).toBe("hi");
+    const bad: any = noOp({
+      args: {},
+      returns: v.string(),
+      handler: async () => 1 as any,
+    });
+    await expect(bad.handler({}, {})).rejects.toThrow(
+      "Return value didn't match the `returns` validator"
+    );
+  });
+
+  test("checks the return value of functions without args", async () => {
+    const ok: any = noOp({ returns: v.string(), handler: async () => "hi" });
+    expect(await ok.handler({}, {})).toBe("hi");
+    const bad: any = noOp({
+      returns: v.string(),
+      handler: async () => 1 as any,
+    });
+    await expect(bad.handler({}, {})).rejects.toThrow(
+      "Return value didn't match the `returns` validator"
+    );
+  });
+});
+
+describe("hooks", () => {
+  test("onSuccess replaces the result when it returns a value", async () => {
+    const fn: any = customQuery(passthrough, {
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        onSuccess: (result: string) => `${result}!`,
+      }),
+    })({ args: {}, handler: async () => "hi" });
+    expect(await fn.handler({}, {})).toBe("hi!");
+
+    const unchanged: any = customQuery(passthrough, {
+      args: {},
+      input: async () => ({ ctx: {}, args: {}, onSuccess: () => undefined }),
+    })({ args: {}, handler: async () => "hi" });
+    expect(await unchanged.handler({}, {})).toBe("hi");
+  });
+
+  test("onError sees the error and can rethrow or map it", async () => {
+    const seen: unknown[] = [];
+    const rethrown: any = customQuery(passthrough, {
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        onError: (error: unknown) => {
+          seen.push(error);
+        },
+      }),
+    })({
+      args: {},
+      handler: async () => {
+        throw new Error("boom");
+      },
+    });
+    await expect(rethrown.handler({}, {})).rejects.toThrow("boom");
+    expect(seen).toEqual([new Error("boom")]);
+
+    const mapped: any = customQuery(passthrough, {
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        onError: (error: unknown) => {
+          throw new Error(`mapped: ${(error as Error).message}`);
+        },
+      }),
+    })({
+      args: {},
+      handler: async () => {
+        throw new Error("boom");
+      },
+    });
+    await expect(mapped.handler({}, {})).rejects.toThrow("mapped: boom");
+  });
+
+  test("finally runs on success and on error", async () => {
+    let calls = 0;
+    const withFinally = customQuery(passthrough, {
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        finally: () => {
+          calls++;
+        },
+      }),
+    });
+    const ok: any = withFinally({ args: {}, handler: async () => "hi" });
+    const bad: any = withFinally({
+      args: {},
+      handler: async () => {
+        throw new Error("boom");
+      },
+    });
+    expect(await ok.handler({}, {})).toBe("hi");
+    expect(calls).toBe(1);
+    await expect(bad.handler({}, {})).rejects.toThrow("boom");
+    expect(calls).toBe(2);
+  });
+
+  test("composeMods runs hooks from the last mod to the first", async () => {
+    const events: string[] = [];
+    const logged = (name: string) => ({
+      args: {},
+      input: async () => {
+        events.push(`${name}.input`);
+        return {
+          ctx: {},
+          args: {},
+          onSuccess: (result: string) => {
+            events.push(`${name}.onSuccess(${result})`);
+            return `${result}+${name}`;
+          },
+          onError: (error: unknown) => {
+            events.push(`${name}.onError(${(error as Error).message})`);
+            throw new Error(`${(error as Error).message}+${name}`);
+          },
+          finally: () => {
+            events.push(`${name}.finally`);
+          },
+        };
+      },
+    });
+    const composed = customQuery(
+      passthrough,
+      composeMods(logged("a"), logged("b"))
+    );
+
+    const ok: any = composed({
+      args: {},
+      handler: async () => {
+        events.push("handler");
+        return "hi";
+      },
+    });
+    expect(await ok.handler({}, {})).toBe("hi+b+a");
+    expect(events).toEqual([
+      "a.input",
+      "b.input",
+      "handler",
+      "b.onSuccess(hi)",
+      "a.onSuccess(hi+b)",
+      "b.finally",
+      "a.finally",
+    ]);
+
+    events.length = 0;
+    const bad: any = composed({
+      args: {},
+      handler: async () => {
+        throw new Error("boom");
+      },
+    });
+    await expect(bad.handler({}, {})).rejects.toThrow("boom+b+a");
+    expect(events).toEqual([
+      "a.input",
+      "b.input",
+      "b.onError(boom)",
+      "a.onError(boom+b)",
+      "b.finally",
+      "a.finally",
+    ]);
+  });
+});
+
+describe("replaceHandler", () => {
+  test("skips the handler", async () => {
+    let runs = 0;
+    const fn: any = customQuery(passthrough, {
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        replaceHandler: () => "cached",
+        onSuccess: (result: string) => `${result}!`,
+      }),
+    })({ args: {}, handler: async () => `run ${++runs}` });
+    expect(await fn.handler({}, {})).toBe("cached!");
+    expect(runs).toBe(0);
+  });
+
+  test("uses the first mod's replacement and runs every mod's hooks", async () => {
+    const events: string[] = [];
+    const replacing = (name: string) => ({
+      args: {},
+      input: async () => ({
+        ctx: {},
+        args: {},
+        replaceHandler: () => name,
+        onSuccess: (result: string) => {
+          events.push(`${name}.onSuccess(${result})`);
+        },
+        finally: () => {
+          events.push(`${name}.finally`);
+        },
+      }),
+    });
+    const fn: any = customQuery(
+      passthrough,
+      composeMods(replacing("a"), replacing("b"))
+    )({ args: {}, handler: async () => "handler" });
+    expect(await fn.handler({}, {})).toBe("a");
+    // Other mods' onSuccess runs again on the replayed value.
+    expect(events).toEqual([
+      "b.onSuccess(a)",
+      "a.onSuccess(a)",
+      "b.finally",
+      "a.finally",
+    ]);
+  });
+});
+
 /**
  * Test helpers
  */
@@ -10,7 +10,7 @@
  *   as taking in an authentication parameter like an API key or session ID.
  *   These arguments must be sent up by the client along with each request.
  */
-import { ObjectType, PropertyValidators } from "convex/values";
+import { ObjectType, PropertyValidators, Validator } from "convex/values";
 import {
   ActionBuilder,
   FunctionVisibility,
@@ -18,13 +18,27 @@ import {
   GenericDataModel,
   GenericMutationCtx,
   GenericQueryCtx,
+  HttpActionBuilder,
   MutationBuilder,
+  PublicHttpAction,
   QueryBuilder,
   RegisteredAction,
   RegisteredMutation,
   RegisteredQuery,
   UnvalidatedFunction,
 } from "convex/server";
+import {
+  ArgsOutput,
+  applyArgTransforms,
+  describeFailure,
+  validate,
+} from "./validators";
+import {
+  FunctionMetadata,
+  functionRegistry,
+  mergeMetadata,
+  visibilityOf,
+} from "./registry";
 
 /**
  * A modifier for a query, mutation, or action.
@@ -34,6 +48,8 @@ import {
  * provided for the modified function. All returned ctx and args will show up
  * in the type signature for the modified function.
  * To remove something from `ctx`, you can return it as `undefined`.
+ * To run code after the function's handler, return lifecycle hooks alongside
+ * `ctx` and `args`. See {@link ModHooks}.
  */
 export type Mod<
   Ctx extends Record<string, any>,
@@ -44,10 +60,60 @@ export type Mod<
   args: ModArgsValidator;
   input: (
     ctx: Ctx,
-    args: ObjectType<ModArgsValidator>
+    args: ArgsOutput<ModArgsValidator>
   ) =>
-    | Promise<{ ctx: ModCtx; args: ModMadeArgs }>
-    | { ctx: ModCtx; args: ModMadeArgs };
+    | Promise<{ ctx: ModCtx; args: ModMadeArgs } & ModHooks>
+    | ({ ctx: ModCtx; args: ModMadeArgs } & ModHooks);
+  /**
+   * Metadata recorded in the function registry for every function using this
+   * Mod, e.g. `{ auth: "user" }` for a Mod that requires a logged-in user.
+   */
+  meta?: FunctionMetadata;
+};
+
+/**
+ * Lifecycle hooks a Mod can return from `input` to run around the handler.
+ *
+ * e.g. for timing a function:
+ * ```js
+ * const timed = {
+ *   args: {},
+ *   input: async () => {
+ *     const start = Date.now();
+ *     return {
+ *       ctx: {},
+ *       args: {},
+ *       finally: () => console.log(`Took ${Date.now() - start}ms`),
+ *     };
+ *   },
+ * };
+ * ```
+ */
+export type ModHooks = {
+  /**
+   * Called with the handler's result if it succeeded.
+   * If it returns a value other than `undefined`, that value is returned from
+   * the function instead. It should be the same type as the handler's result.
+   */
+  onSuccess?: (result: any) => unknown | Promise<unknown>;
+  /**
+   * Called with the error if the handler throws.
+   * The original error is re-thrown afterwards, unless `onError` throws a
+   * different error, e.g. to translate it into a `ConvexError`.
+   */
+  onError?: (error: unknown) => void | Promise<void>;
+  /**
+   * Called after the handler and the other hooks, whether or not it succeeded.
+   */
+  finally?: () => void | Promise<void>;
+  /**
+   * If provided, called instead of the handler, e.g. to return a cached
+   * result. Its result is passed to `onSuccess` like the handler's would be.
+   * With `composeMods`, the first mod's replacement wins, and every mod's
+   * `onSuccess` and `finally` still run, so other mods see a replayed result
+   * as if the handler had returned it.
+   */
+  replaceHandler?: () => unknown | Promise<unknown>;
 };
 
 /**
@@ -78,6 +144,208 @@ export const NoOp = {
   },
 };
 
+/**
+ * Combine multiple Mods into one, applied in order.
+ *
+ * Each mod's `input` receives the ctx as modified by the mods before it, and
+ * its own declared args split out from the rest. The resulting Mod declares
+ * all of the mods' args, and returns all of the ctx and args they produce,
+ * with later mods overwriting earlier ones.
+ *
+ * Example usage:
+ * ```js
+ * const withUser = customCtx(async (ctx: QueryCtx) => ({
+ *   user: await getUserByTokenIdentifier(ctx),
+ * }));
+ * const withSession: Mod<QueryCtx & { user: Doc<"users"> }, ...> = {
+ *   args: { sessionId: v.id("sessions") },
+ *   input: async (ctx, { sessionId }) => {
+ *     const session = await ctx.db.get(sessionId);
+ *     return { ctx: { session }, args: {} };
+ *   },
+ * };
+ * const withRLS = customCtx((ctx: QueryCtx & { user: Doc<"users"> }) => ({
+ *   db: wrapDatabaseReader({ user: ctx.user }, ctx.db, rules),
+ * }));
+ *
+ * const myQuery = customQuery(query, composeMods(withUser, withSession, withRLS));
+ * ```
+ *
+ * Throws if two mods declare an argument with the same name, since only one of
+ * them could consume it.
+ *
+ * @param mods The mods to apply, in order.
+ * @returns A single Mod combining the args, ctx, args, hooks, and metadata of
+ *   all the mods.
+ */
+export function composeMods<
+  Ctx extends Record<string, any>,
+  A1 extends PropertyValidators,
+  C1 extends Record<string, any>,
+  M1 extends Record<string, any>,
+  A2 extends PropertyValidators,
+  C2 extends Record<string, any>,
+  M2 extends Record<string, any>
+>(
+  mod1: Mod<Ctx, A1, C1, M1>,
+  mod2: Mod<Overwrite<Ctx, C1>, A2, C2, M2>
+): Mod<Ctx, A1 & A2, Overwrite<C1, C2>, Overwrite<M1, M2>>;
+export function composeMods<
+  Ctx extends Record<string, any>,
+  A1 extends PropertyValidators,
+  C1 extends Record<string, any>,
+  M1 extends Record<string, any>,
+  A2 extends PropertyValidators,
+  C2 extends Record<string, any>,
+  M2 extends Record<string, any>,
+  A3 extends PropertyValidators,
+  C3 extends Record<string, any>,
+  M3 extends Record<string, any>
+>(
+  mod1: Mod<Ctx, A1, C1, M1>,
+  mod2: Mod<Overwrite<Ctx, C1>, A2, C2, M2>,
+  mod3: Mod<Overwrite<Overwrite<Ctx, C1>, C2>, A3, C3, M3>
+): Mod<
+  Ctx,
+  A1 & A2 & A3,
+  Overwrite<Overwrite<C1, C2>, C3>,
+  Overwrite<Overwrite<M1, M2>, M3>
+>;
+export function composeMods<
+  Ctx extends Record<string, any>,
+  A1 extends PropertyValidators,
+  C1 extends Record<string, any>,
+  M1 extends Record<string, any>,
+  A2 extends PropertyValidators,
+  C2 extends Record<string, any>,
+  M2 extends Record<string, any>,
+  A3 extends PropertyValidators,
+  C3 extends Record<string, any>,
+  M3 extends Record<string, any>,
+  A4 extends PropertyValidators,
+  C4 extends Record<string, any>,
+  M4 extends Record<string, any>
+>(
+  mod1: Mod<Ctx, A1, C1, M1>,
+  mod2: Mod<Overwrite<Ctx, C1>, A2, C2, M2>,
+  mod3: Mod<Overwrite<Overwrite<Ctx, C1>, C2>, A3, C3, M3>,
+  mod4: Mod<Overwrite<Overwrite<Overwrite<Ctx, C1>, C2>, C3>, A4, C4, M4>
+): Mod<
+  Ctx,
+  A1 & A2 & A3 & A4,
+  Overwrite<Overwrite<Overwrite<C1, C2>, C3>, C4>,
+  Overwrite<Overwrite<Overwrite<M1, M2>, M3>, M4>
+>;
+export function composeMods(
+  ...mods: Mod<any, PropertyValidators, any, any>[]
+): Mod<any, PropertyValidators, any, any> {
+  const args: PropertyValidators = {};
+  const declaredBy: Record<string, number> = {};
+  mods.forEach((mod, i) => {
+    for (const arg of Object.keys(mod.args ?? NoOp.args)) {
+      if (arg in declaredBy) {
+        throw new Error(
+          `composeMods: argument "${arg}" is declared by both mod ` +
+            `${declaredBy[arg]} and mod ${i}. Each argument can only be ` +
+            "consumed by one mod."
+        );
+      }
+      declaredBy[arg] = i;
+      args[arg] = mod.args[arg];
+    }
+  });
+  const meta = mods.reduce<FunctionMetadata>(
+    (merged, mod) => mergeMetadata(merged, mod.meta ?? {}),
+    {}
+  );
+  return {
+    args,
+    meta,
+    input: async (ctx, allArgs) => {
+      let currentCtx = ctx;
+      let modCtx = {};
+      let modArgs = {};
+      const hooks: ModHooks[] = [];
+      for (const mod of mods) {
+        const inputMod = mod.input ?? NoOp.input;
+        const { split } = splitArgs(mod.args ?? NoOp.args, allArgs);
+        const {
+          ctx: addedCtx,
+          args: addedArgs,
+          ...modHooks
+        } = await inputMod(currentCtx, split);
+        currentCtx = { ...currentCtx, ...addedCtx };
+        modCtx = { ...modCtx, ...addedCtx };
+        modArgs = { ...modArgs, ...addedArgs };
+        hooks.push(modHooks);
+      }
+      return { ctx: modCtx, args: modArgs, ...composeHooks(hooks) };
+    },
+  };
+}
+
+// Hooks are run like nested middleware: the last mod to run `input` is the
+// first to see the result.
+function composeHooks(hooks: ModHooks[]): ModHooks {
+  const reversed = [...hooks].reverse();
+  return {
+    onSuccess: async (result) => {
+      for (const { onSuccess } of reversed) {
+        if (onSuccess) {
+          const replaced = await onSuccess(result);
+          if (replaced !== undefined) {
+            result = replaced;
+          }
+        }
+      }
+      return result;
+    },
+    onError: async (error) => {
+      for (const { onError } of reversed) {
+        try {
+          await onError?.(error);
+        } catch (mapped) {
+          error = mapped;
+        }
+      }
+      throw error;
+    },
+    finally: async () => {
+      for (const hooks of reversed) {
+        await hooks.finally?.();
+      }
+    },
+    // The first mod to replace the handler wins, like middleware returning
+    // early. Mods after it still run `input`.
+    replaceHandler: hooks.find((hooks) => hooks.replaceHandler)?.replaceHandler,
+  };
+}
+
+/**
+ * Runs a function's handler along with the hooks returned by a Mod's `input`.
+ *
+ * @param hooks The hooks returned from `input`, if any.
+ * @param handler Runs the function's handler.
+ * @returns The handler's result, or the value returned by `onSuccess`.
+ */
+export async function runWithModHooks<Output>(
+  hooks: ModHooks,
+  handler: () => Promise<Output>
+): Promise<Output> {
+  try {
+    const result = hooks.replaceHandler
+      ? ((await hooks.replaceHandler()) as Output)
+      : await handler();
+    const replaced = await hooks.onSuccess?.(result);
+    return replaced === undefined ? result : (replaced as Output);
+  } catch (error) {
+    await hooks.onError?.(error);
+    throw error;
+  } finally {
+    await hooks.finally?.();
+  }
+}
+
 /**
  * customQuery helps define custom behavior on top of `query` or `internalQuery`
  * by passing a function that modifies the ctx and args.
@@ -140,42 +408,7 @@ export function customQuery<
   query: QueryBuilder<DataModel, Visibility>,
   mod: Mod<GenericQueryCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>
 ) {
-  function customQueryBuilder(fn: any): any {
-    // Looking forward to when input / args / ... are optional
-    const inputMod = mod.input ?? NoOp.input;
-    const inputArgs = mod.args ?? NoOp.args;
-    if ("args" in fn) {
-      return query({
-        args: {
-          ...fn.args,
-          ...inputArgs,
-        },
-        handler: async (ctx, allArgs: any) => {
-          const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          return await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...rest, ...added.args }
-          );
-        },
-      });
-    }
-    if (Object.keys(inputArgs).length > 0) {
-      throw new Error(
-        "If you're using a custom function with arguments for the input " +
-          "modifier, you must declare the arguments for the function too."
-      );
-    }
-    const handler = fn.handler ?? fn;
-    return query({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
-      },
-    });
-  }
-
-  return customQueryBuilder as CustomBuilder<
+  return customFnBuilder(query, mod, "query") as CustomBuilder<
     "query",
     ModArgsValidator,
     ModCtx,
@@ -247,42 +480,7 @@ export function customMutation<
   mutation: MutationBuilder<DataModel, Visibility>,
   mod: Mod<GenericMutationCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>
 ) {
-  function customMutationBuilder(fn: any): any {
-    // Looking forward to when input / args / ... are optional
-    const inputMod = mod.input ?? NoOp.input;
-    const inputArgs = mod.args ?? NoOp.args;
-    if ("args" in fn) {
-      return mutation({
-        args: {
-          ...fn.args,
-          ...inputArgs,
-        },
-        handler: async (ctx, allArgs: any) => {
-          const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          return await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...rest, ...added.args }
-          );
-        },
-      });
-    }
-    if (Object.keys(inputArgs).length > 0) {
-      throw new Error(
-        "If you're using a custom function with arguments for the input " +
-          "modifier, you must declare the arguments for the function too."
-      );
-    }
-    const handler = fn.handler ?? fn;
-    return mutation({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
-      },
-    });
-  }
-
-  return customMutationBuilder as CustomBuilder<
+  return customFnBuilder(mutation, mod, "mutation") as CustomBuilder<
     "mutation",
     ModArgsValidator,
     ModCtx,
@@ -363,23 +561,329 @@ export function customAction<
   GenericActionCtx<DataModel>,
   Visibility
 > {
-  function customActionBuilder(fn: any): any {
-    // Looking forward to when input / args / ... are optional
-    const inputMod = mod.input ?? NoOp.input;
-    const inputArgs = mod.args ?? NoOp.args;
+  return customFnBuilder(action, mod, "action") as CustomBuilder<
+    "action",
+    ModArgsValidator,
+    ModCtx,
+    ModMadeArgs,
+    GenericActionCtx<DataModel>,
+    Visibility
+  >;
+}
+
+/**
+ * customQueryWithInternal defines a public and an internal query from a
+ * single definition. The public one uses `mod`, e.g. to look up the user from
+ * a session. The internal one uses `internalMod`, which must provide the same
+ * ctx and args, but can trust its caller, e.g. taking a `userId` argument from
+ * an action calling `ctx.runQuery`.
+ *
+ * Example usage:
+ * ```js
+ * const userQuery = customQueryWithInternal(query, internalQuery, {
+ *   args: { sessionId: v.id("sessions") },
+ *   input: async (ctx, { sessionId }) => {
+ *     const user = await getUserFromSession(ctx, sessionId);
+ *     return { ctx: { user }, args: {} };
+ *   },
+ * }, {
+ *   args: { userId: v.id("users") },
+ *   input: async (ctx, { userId }) => {
+ *     const user = nullThrows(await ctx.db.get(userId));
+ *     return { ctx: { user }, args: {} };
+ *   },
+ * });
+ *
+ * export const { public: listMine, internal: listForUser } = userQuery({
+ *   args: {},
+ *   handler: async (ctx) => getManyFrom(ctx.db, "posts", "authorId", ctx.user._id),
+ * });
+ * ```
+ *
+ * @param query The public query builder, usually `query` from `_generated/server`.
+ * @param internalQuery The internal query builder, usually `internalQuery`.
+ * @param mod The modifier for the public query.
+ * @param internalMod The modifier for the internal query.
+ * @returns A builder that returns `{ public, internal }` registered queries.
+ */
+export function customQueryWithInternal<
+  ModArgsValidator extends PropertyValidators,
+  InternalModArgsValidator extends PropertyValidators,
+  ModCtx extends Record<string, any>,
+  ModMadeArgs extends Record<string, any>,
+  DataModel extends GenericDataModel
+>(
+  query: QueryBuilder<DataModel, "public">,
+  internalQuery: QueryBuilder<DataModel, "internal">,
+  mod: Mod<GenericQueryCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>,
+  internalMod: Mod<
+    GenericQueryCtx<DataModel>,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs
+  >
+) {
+  return withInternalBuilder(
+    customFnBuilder(query, mod, "query", "public"),
+    customFnBuilder(internalQuery, internalMod, "query", "internal")
+  ) as WithInternalBuilder<
+    "query",
+    ModArgsValidator,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs,
+    GenericQueryCtx<DataModel>
+  >;
+}
+
+/**
+ * customMutationWithInternal defines a public and an internal mutation from a
+ * single definition. See {@link customQueryWithInternal}.
+ *
+ * @param mutation The public mutation builder, usually `mutation`.
+ * @param internalMutation The internal mutation builder, usually
+ *   `internalMutation`.
+ * @param mod The modifier for the public mutation.
+ * @param internalMod The modifier for the internal mutation.
+ * @returns A builder that returns `{ public, internal }` registered mutations.
+ */
+export function customMutationWithInternal<
+  ModArgsValidator extends PropertyValidators,
+  InternalModArgsValidator extends PropertyValidators,
+  ModCtx extends Record<string, any>,
+  ModMadeArgs extends Record<string, any>,
+  DataModel extends GenericDataModel
+>(
+  mutation: MutationBuilder<DataModel, "public">,
+  internalMutation: MutationBuilder<DataModel, "internal">,
+  mod: Mod<
+    GenericMutationCtx<DataModel>,
+    ModArgsValidator,
+    ModCtx,
+    ModMadeArgs
+  >,
+  internalMod: Mod<
+    GenericMutationCtx<DataModel>,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs
+  >
+) {
+  return withInternalBuilder(
+    customFnBuilder(mutation, mod, "mutation", "public"),
+    customFnBuilder(internalMutation, internalMod, "mutation", "internal")
+  ) as WithInternalBuilder<
+    "mutation",
+    ModArgsValidator,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs,
+    GenericMutationCtx<DataModel>
+  >;
+}
+
+/**
+ * customActionWithInternal defines a public and an internal action from a
+ * single definition. See {@link customQueryWithInternal}.
+ *
+ * @param action The public action builder, usually `action`.
+ * @param internalAction The internal action builder, usually `internalAction`.
+ * @param mod The modifier for the public action.
+ * @param internalMod The modifier for the internal action.
+ * @returns A builder that returns `{ public, internal }` registered actions.
+ */
+export function customActionWithInternal<
+  ModArgsValidator extends PropertyValidators,
+  InternalModArgsValidator extends PropertyValidators,
+  ModCtx extends Record<string, any>,
+  ModMadeArgs extends Record<string, any>,
+  DataModel extends GenericDataModel
+>(
+  action: ActionBuilder<DataModel, "public">,
+  internalAction: ActionBuilder<DataModel, "internal">,
+  mod: Mod<GenericActionCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>,
+  internalMod: Mod<
+    GenericActionCtx<DataModel>,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs
+  >
+) {
+  return withInternalBuilder(
+    customFnBuilder(action, mod, "action", "public"),
+    customFnBuilder(internalAction, internalMod, "action", "internal")
+  ) as WithInternalBuilder<
+    "action",
+    ModArgsValidator,
+    InternalModArgsValidator,
+    ModCtx,
+    ModMadeArgs,
+    GenericActionCtx<DataModel>
+  >;
+}
+
+function withInternalBuilder(
+  publicBuilder: (fn: any) => any,
+  internalBuilder: (fn: any) => any
+) {
+  return function customBuilder(fn: any) {
+    if (!("args" in fn)) {
+      throw new Error(
+        "Functions with public and internal variants must declare their args."
+      );
+    }
+    return { public: publicBuilder(fn), internal: internalBuilder(fn) };
+  };
+}
+
+/**
+ * A modifier for an httpAction.
+ *
+ * Like a Mod, but `input` receives the `Request` instead of validated args, so
+ * it can read headers, cookies, or query parameters. It can return a
+ * `Response` instead of ctx to respond without running the handler, e.g. a 401.
+ */
+export type HttpMod<
+  Ctx extends Record<string, any>,
+  ModCtx extends Record<string, any>
+> = {
+  input: (
+    ctx: Ctx,
+    request: Request
+  ) =>
+    | Promise<({ ctx: ModCtx } & ModHooks) | Response>
+    | ({ ctx: ModCtx } & ModHooks)
+    | Response;
+  /**
+   * Metadata recorded in the function registry for every httpAction using
+   * this HttpMod.
+   */
+  meta?: FunctionMetadata;
+};
+
+/**
+ * customHttpAction helps define custom behavior on top of `httpAction`
+ * by passing a function that modifies the ctx based on the request.
+ *
+ * Example usage:
+ * ```js
+ * const apiKeyAction = customHttpAction(httpAction, {
+ *   input: async (ctx, request) => {
+ *     const token = getBearerToken(request);
+ *     const apiKey = token && (await ctx.runQuery(internal.keys.get, { token }));
+ *     if (!apiKey) {
+ *       return new Response("Unauthorized", { status: 401 });
+ *     }
+ *     return { ctx: { apiKey } };
+ *   },
+ * });
+ *
+ * // Using the custom builder
+ * http.route({
+ *   path: "/webhook",
+ *   method: "POST",
+ *   handler: apiKeyAction(async (ctx, request) => {
+ *     console.log(ctx.apiKey.owner);
+ *     return new Response(null, { status: 200 });
+ *   }),
+ * });
+ * ```
+ *
+ * @param httpAction The httpAction builder from `_generated/server`.
+ * @param mod The modifier to be applied to the httpAction, changing ctx or
+ *   responding early. Annotate `input`'s ctx as `ActionCtx` from
+ *   `_generated/server` to type the ctx with your data model.
+ * @returns A new httpAction builder to define httpActions with modified ctx.
+ */
+export function customHttpAction<
+  ModCtx extends Record<string, any>,
+  DataModel extends GenericDataModel = GenericDataModel
+>(
+  httpAction: HttpActionBuilder,
+  mod: HttpMod<GenericActionCtx<DataModel>, ModCtx>
+): (
+  handler: (
+    ctx: Overwrite<GenericActionCtx<DataModel>, ModCtx>,
+    request: Request
+  ) => Promise<Response>
+) => PublicHttpAction {
+  return (handler) => {
+    const registration = httpAction(async (ctx, request) => {
+      // httpAction's ctx isn't typed with a data model, but it's the same ctx.
+      const typedCtx = ctx as GenericActionCtx<DataModel>;
+      const added = await mod.input(typedCtx, request);
+      if (added instanceof Response) {
+        return added;
+      }
+      const { ctx: modCtx, ...hooks } = added;
+      return await runWithModHooks(hooks, () =>
+        handler({ ...typedCtx, ...modCtx }, request)
+      );
+    });
+    functionRegistry.record(registration, {
+      type: "httpAction",
+      visibility: "public",
+      args: null,
+      meta: mod.meta ?? {},
+    });
+    return registration;
+  };
+}
+
+/**
+ * The shared implementation of customQuery, customMutation, and customAction.
+ *
+ * @param builder The function builder, e.g. `query` or `internalMutation`.
+ * @param mod The modifier to be applied to the function.
+ * @param type The kind of function the builder defines, for the registry.
+ * @param visibility Whether the builder defines public or internal
+ *   functions, if known. Otherwise it's read from each registration.
+ * @returns A builder that applies the mod to each function it defines.
+ */
+function customFnBuilder(
+  builder: (fn: any) => any,
+  mod: Mod<any, any, any, any>,
+  type: "query" | "mutation" | "action",
+  visibility?: FunctionVisibility
+) {
+  // Looking forward to when input / args / ... are optional
+  const inputMod = mod.input ?? NoOp.input;
+  const inputArgs = mod.args ?? NoOp.args;
+  return function customBuilder(fn: any): any {
+    const registration = buildFunction(fn);
+    functionRegistry.record(registration, {
+      type,
+      visibility: visibility ?? visibilityOf(registration),
+      args: "args" in fn ? { ...fn.args, ...inputArgs } : null,
+      meta: mergeMetadata(mod.meta ?? {}, fn.meta ?? {}),
+    });
+    return registration;
+  };
+
+  function buildFunction(fn: any) {
     if ("args" in fn) {
-      return action({
+      return builder({
         args: {
           ...fn.args,
           ...inputArgs,
         },
-        handler: async (ctx, allArgs: any) => {
+        handler: async (ctx: any, allArgs: any) => {
           const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          return await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...rest, ...added.args }
-          );
+          const {
+            ctx: modCtx,
+            args: modArgs,
+            ...hooks
+          } = await inputMod(ctx, applyArgTransforms(inputArgs, split));
+          return await runWithModHooks(hooks, async () => {
+            const result = await fn.handler(
+              { ...ctx, ...modCtx },
+              { ...applyArgTransforms(fn.args, rest), ...modArgs }
+            );
+            if (fn.returns) {
+              validateReturnValue(fn.returns, result);
+            }
+            return result;
+          });
         },
       });
     }
@@ -390,22 +894,34 @@ export function customAction<
       );
     }
     const handler = fn.handler ?? fn;
-    return action({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
+    return builder({
+      handler: async (ctx: any, args: any) => {
+        const { ctx: modCtx, args: _, ...hooks } = await inputMod(ctx, args);
+        return await runWithModHooks(hooks, async () => {
+          const result = await handler({ ...ctx, ...modCtx }, args);
+          if (fn.returns) {
+            validateReturnValue(fn.returns, result);
+          }
+          return result;
+        });
       },
     });
   }
+}
 
-  return customActionBuilder as CustomBuilder<
-    "action",
-    ModArgsValidator,
-    ModCtx,
-    ModMadeArgs,
-    GenericActionCtx<DataModel>,
-    Visibility
-  >;
+function validateReturnValue(
+  returns: Validator<any, any, any>,
+  result: unknown
+) {
+  const failure = validate(returns, result);
+  if (failure) {
+    // This is a developer error, so we throw a regular Error rather than a
+    // ConvexError, to avoid exposing the unexpected value to the client.
+    throw new Error(
+      `Return value didn't match the \`returns\` validator at ` +
+        describeFailure(failure)
+    );
+  }
 }
 
 /**
@@ -455,6 +971,45 @@ export type Registration<
   action: RegisteredAction<Visibility, Args, Output>;
 }[FuncType];
 
+/**
+ * The definition of a custom function that validates its arguments.
+ * e.g. `{ args: {}, handler: async (ctx, args) => {} }`
+ */
+type ValidatedFunction<
+  ModCtx extends Record<string, any>,
+  ModMadeArgs extends Record<string, any>,
+  InputCtx,
+  ExistingArgsValidator extends PropertyValidators,
+  Output,
+  ReturnsValidator extends Validator<any, any, any> | undefined
+> = {
+  args: ExistingArgsValidator;
+  handler: (
+    ctx: Overwrite<InputCtx, ModCtx>,
+    args: Overwrite<ArgsOutput<ExistingArgsValidator>, ModMadeArgs>
+  ) => ReturnsValidator extends Validator<any, any, any>
+    ? ReturnsValidator["type"] | Promise<ReturnsValidator["type"]>
+    : Output;
+  /**
+   * Optional validator for the handler's return value, checked at runtime.
+   * If the value doesn't match, the function throws an error describing the
+   * path of the first mismatch.
+   */
+  returns?: ReturnsValidator;
+  /**
+   * Metadata to record in the function registry, merged with the Mod's.
+   */
+  meta?: FunctionMetadata;
+};
+
+// The output type of a ValidatedFunction, narrowed by `returns` if provided.
+type ValidatedOutput<
+  Output,
+  ReturnsValidator extends Validator<any, any, any> | undefined
+> = ReturnsValidator extends Validator<any, any, any>
+  ? Promise<ReturnsValidator["type"]>
+  : Output;
+
 /**
  * A builder that customizes a Convex function using argument validation.
  * e.g. `query({ args: {}, handler: async (ctx, args) => {} })`
@@ -466,19 +1021,66 @@ type ValidatedBuilder<
   ModMadeArgs extends Record<string, any>,
   InputCtx,
   Visibility extends FunctionVisibility
-> = <ExistingArgsValidator extends PropertyValidators, Output>(fn: {
-  args: ExistingArgsValidator;
-  handler: (
-    ctx: Overwrite<InputCtx, ModCtx>,
-    args: Overwrite<ObjectType<ExistingArgsValidator>, ModMadeArgs>
-  ) => Output;
-}) => Registration<
+> = <
+  ExistingArgsValidator extends PropertyValidators,
+  Output,
+  ReturnsValidator extends Validator<any, any, any> | undefined = undefined
+>(
+  fn: ValidatedFunction<
+    ModCtx,
+    ModMadeArgs,
+    InputCtx,
+    ExistingArgsValidator,
+    Output,
+    ReturnsValidator
+  >
+) => Registration<
   FuncType,
   Visibility,
   ObjectType<ExistingArgsValidator & ModArgsValidator>,
-  Output
+  ValidatedOutput<Output, ReturnsValidator>
 >;
 
+/**
+ * A builder that defines a public and an internal Convex function from one
+ * definition, each with its own Mod.
+ * e.g. `const { public: f, internal: g } = builder({ args, handler })`
+ */
+export type WithInternalBuilder<
+  FuncType extends "query" | "mutation" | "action",
+  ModArgsValidator extends PropertyValidators,
+  InternalModArgsValidator extends PropertyValidators,
+  ModCtx extends Record<string, any>,
+  ModMadeArgs extends Record<string, any>,
+  InputCtx
+> = <
+  ExistingArgsValidator extends PropertyValidators,
+  Output,
+  ReturnsValidator extends Validator<any, any, any> | undefined = undefined
+>(
+  fn: ValidatedFunction<
+    ModCtx,
+    ModMadeArgs,
+    InputCtx,
+    ExistingArgsValidator,
+    Output,
+    ReturnsValidator
+  >
+) => {
+  public: Registration<
+    FuncType,
+    "public",
+    ObjectType<ExistingArgsValidator & ModArgsValidator>,
+    ValidatedOutput<Output, ReturnsValidator>
+  >;
+  internal: Registration<
+    FuncType,
+    "internal",
+    ObjectType<ExistingArgsValidator & InternalModArgsValidator>,
+    ValidatedOutput<Output, ReturnsValidator>
+  >;
+};
+
 /**
  * A builder that customizes a Convex function which doesn't validate arguments.
  * e.g. `query(async (ctx, args) => {})`
@@ -490,18 +1092,36 @@ export type UnvalidatedBuilder<
   ModMadeArgs extends Record<string, any>,
   InputCtx,
   Visibility extends FunctionVisibility
-> = <Output, ExistingArgs extends DefaultFunctionArgs = DefaultFunctionArgs>(
-  fn: UnvalidatedFunction<
-    Overwrite<InputCtx, ModCtx>,
-    // We don't need to overwrite the existing args with the mod ones.
-    // Technically you could try to pass one argument and have it overwritten
-    // But since you can't consume the arg in the unvalidated custom function,
-    // it would just get dropped. So force them to exclude the mod-made args
-    // from their regular parameters.
-    // This is done to let TypeScript infer what ExistingArgs is more easily.
-    [ExistingArgs & ModMadeArgs],
-    Output
-  >
+> = <
+  Output,
+  ExistingArgs extends DefaultFunctionArgs = DefaultFunctionArgs,
+  ReturnsValidator extends Validator<any, any, any> | undefined = undefined
+>(
+  fn:
+    | UnvalidatedFunction<
+        Overwrite<InputCtx, ModCtx>,
+        // We don't need to overwrite the existing args with the mod ones.
+        // Technically you could try to pass one argument and have it overwritten
+        // But since you can't consume the arg in the unvalidated custom function,
+        // it would just get dropped. So force them to exclude the mod-made args
+        // from their regular parameters.
+        // This is done to let TypeScript infer what ExistingArgs is more easily.
+        [ExistingArgs & ModMadeArgs],
+        Output
+      >
+    | {
+        handler: (
+          ctx: Overwrite<InputCtx, ModCtx>,
+          args: ExistingArgs & ModMadeArgs
+        ) => ReturnsValidator extends Validator<any, any, any>
+          ? ReturnsValidator["type"] | Promise<ReturnsValidator["type"]>
+          : Output;
+        /**
+         * Optional validator for the handler's return value, checked at
+         * runtime, as for functions with `args`.
+         */
+        returns?: ReturnsValidator;
+      }
 ) => Registration<
   FuncType,
   Visibility,
@@ -510,7 +1130,7 @@ export type UnvalidatedBuilder<
   // This allows us to use a customFunction (that doesn't modify ctx/args)
   // as a parameter to other customFunctions, e.g. with RLS.
   ExistingArgs,
-  Output
+  ValidatedOutput<Output, ReturnsValidator>
 >;
 
 /**
@@ -0,0 +1,92 @@
+import { ConvexError } from "convex/values";
+import { queryGeneric as query } from "convex/server";
+import { describe, expect, test } from "vitest";
+import { NullDocumentError, nullThrows } from "..";
+import { customQuery } from "./customFunctions";
+import { appError, mapError, mapErrors, translateError } from "./errors";
+
+class QuotaError extends Error {
+  constructor(public remaining: number) {
+    super("Quota exceeded");
+  }
+}
+
+const mappings = [
+  mapError(QuotaError, (e) => ({
+    code: "RATE_LIMITED",
+    data: { remaining: e.remaining },
+  })),
+  mapError(NullDocumentError, { code: "NOT_FOUND", message: "Not found" }),
+  mapError(Error, { code: "INTERNAL" }),
+];
+
+describe("appError", () => {
+  test("only includes data when provided", () => {
+    expect(appError("NOT_FOUND", "gone").data).toEqual({
+      code: "NOT_FOUND",
+      message: "gone",
+    });
+    expect(appError("CONFLICT", "taken", { id: "1" }).data).toEqual({
+      code: "CONFLICT",
+      message: "taken",
+      data: { id: "1" },
+    });
+  });
+});
+
+describe("translateError", () => {
+  test("uses the first matching class", () => {
+    const error = translateError(new QuotaError(3), mappings);
+    expect(error).toBeInstanceOf(ConvexError);
+    expect((error as ConvexError<any>).data).toEqual({
+      code: "RATE_LIMITED",
+      message: "Quota exceeded",
+      data: { remaining: 3 },
+    });
+  });
+
+  test("overrides the message if the translation has one", () => {
+    let error: unknown;
+    try {
+      nullThrows(null);
+    } catch (e) {
+      error = translateError(e, mappings);
+    }
+    expect((error as ConvexError<any>).data).toEqual({
+      code: "NOT_FOUND",
+      message: "Not found",
+    });
+  });
+
+  test("passes through ConvexErrors, non-errors, and unmapped errors", () => {
+    const convexError = appError("FORBIDDEN", "no");
+    expect(translateError(convexError, mappings)).toBe(convexError);
+    expect(translateError("oops", mappings)).toBe("oops");
+    const typeError = new TypeError("bad");
+    expect(
+      translateError(typeError, [mapError(QuotaError, { code: "INTERNAL" })])
+    ).toBe(typeError);
+  });
+});
+
+describe("mapErrors", () => {
+  const passthrough = ((fn: any) => fn) as unknown as typeof query;
+  const mapped = customQuery(passthrough, mapErrors(mappings));
+
+  test("translates errors thrown by the handler", async () => {
+    const fn: any = mapped({
+      args: {},
+      handler: async () => {
+        throw new QuotaError(0);
+      },
+    });
+    await expect(fn.handler({}, {})).rejects.toMatchObject({
+      data: { code: "RATE_LIMITED", data: { remaining: 0 } },
+    });
+  });
+
+  test("returns results unchanged", async () => {
+    const fn: any = mapped({ args: {}, handler: async () => "ok" });
+    expect(await fn.handler({}, {})).toBe("ok");
+  });
+});
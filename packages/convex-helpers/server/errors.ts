@@ -0,0 +1,164 @@
+/**
+ * Structured errors for Convex functions.
+ *
+ * Errors thrown from a Convex function are only visible to the client if they
+ * are a `ConvexError`. Other errors show up as a generic "Server Error". This
+ * file helps translate the errors your code (and these helpers) throw into
+ * `ConvexError`s with a consistent shape the client can switch on:
+ *
+ * ```js
+ * try {
+ *   await updatePost({ postId, title });
+ * } catch (error) {
+ *   if (error instanceof ConvexError) {
+ *     const { code, message } = error.data as AppErrorData;
+ *     switch (code) {
+ *       case "NOT_FOUND": // ...
+ *       case "FORBIDDEN": // ...
+ *     }
+ *   }
+ * }
+ * ```
+ */
+import { ConvexError, Value } from "convex/values";
+import { Mod } from "./customFunctions";
+
+/**
+ * The error codes shared between server and client.
+ */
+export type AppErrorCode =
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "INVALID_ARGUMENT"
+  | "CONFLICT"
+  | "RATE_LIMITED"
+  | "INTERNAL";
+
+/**
+ * The `data` of a `ConvexError` thrown by `appError` or `mapErrors`.
+ */
+export type AppErrorData<Code extends string = AppErrorCode> = {
+  code: Code;
+  message: string;
+  data?: Value;
+};
+
+/**
+ * Create a `ConvexError` with structured data the client can switch on.
+ *
+ * e.g. `throw appError("NOT_FOUND", "Post not found", { postId })`
+ * @param code The error code, e.g. "NOT_FOUND".
+ * @param message A message that is safe to show to the client.
+ * @param data Optional extra data for the client.
+ * @returns A ConvexError to throw.
+ */
+export function appError<Code extends string = AppErrorCode>(
+  code: Code,
+  message: string,
+  data?: Value
+): ConvexError<AppErrorData<Code>> {
+  return new ConvexError(
+    data === undefined ? { code, message } : { code, message, data }
+  );
+}
+
+/**
+ * How to translate an error: a fixed code, with optional message and data,
+ * or a function computing those from the error.
+ * If no message is provided, the original error's message is used.
+ */
+export type ErrorTranslation<E extends Error, Code extends string> =
+  | { code: Code; message?: string; data?: Value }
+  | ((error: E) => { code: Code; message?: string; data?: Value });
+
+type ErrorClass<E extends Error> = abstract new (...args: any[]) => E;
+
+/**
+ * A table of error classes and how to translate them.
+ * The first class the error is an instance of is used, so list subclasses
+ * before their parent classes.
+ */
+export type ErrorMappings<Code extends string = AppErrorCode> = Array<
+  [ErrorClass<any>, ErrorTranslation<any, Code>]
+>;
+
+/**
+ * Define an entry of an `ErrorMappings` table with the error type inferred.
+ *
+ * @param errorClass The class of errors to translate, e.g. `NullDocumentError`.
+ * @param translation The code, message, and data to use for the ConvexError.
+ * @returns An entry for `mapErrors`.
+ */
+export function mapError<E extends Error, Code extends string = AppErrorCode>(
+  errorClass: ErrorClass<E>,
+  translation: ErrorTranslation<E, Code>
+): [ErrorClass<E>, ErrorTranslation<E, Code>] {
+  return [errorClass, translation];
+}
+
+/**
+ * Translate an error into a `ConvexError` using a table of error classes.
+ *
+ * @param error The error that was thrown.
+ * @param mappings Error classes and how to translate them.
+ * @returns The translated ConvexError, or the original error if it's already
+ *   a ConvexError or doesn't match any class in the table.
+ */
+export function translateError<Code extends string = AppErrorCode>(
+  error: unknown,
+  mappings: ErrorMappings<Code>
+): unknown {
+  if (error instanceof ConvexError || !(error instanceof Error)) {
+    return error;
+  }
+  for (const [errorClass, translation] of mappings) {
+    if (error instanceof errorClass) {
+      const { code, message, data } =
+        typeof translation === "function" ? translation(error) : translation;
+      return appError(code, message ?? error.message, data);
+    }
+  }
+  return error;
+}
+
+/**
+ * A Mod for customQuery, customMutation, or customAction that translates
+ * errors thrown by the handler into `ConvexError`s with `AppErrorData`.
+ *
+ * e.g.
+ * ```js
+ * class QuotaError extends Error {
+ *   constructor(public remaining: number) { super("Quota exceeded"); }
+ * }
+ * const errorMapping = mapErrors([
+ *   mapError(NullDocumentError, { code: "NOT_FOUND" }),
+ *   mapError(QuotaError, (e) => ({
+ *     code: "RATE_LIMITED",
+ *     data: { remaining: e.remaining },
+ *   })),
+ * ]);
+ * const myMutation = customMutation(
+ *   mutation,
+ *   composeMods(withUser, errorMapping)
+ * );
+ * ```
+ * Errors that don't match any class are re-thrown as-is.
+ *
+ * @param mappings Error classes and how to translate them.
+ * @returns A Mod that doesn't change ctx or args, and translates errors.
+ */
+export function mapErrors<Code extends string = AppErrorCode>(
+  mappings: ErrorMappings<Code>
+): Mod<Record<string, any>, {}, {}, {}> {
+  return {
+    args: {},
+    input: () => ({
+      ctx: {},
+      args: {},
+      onError: (error) => {
+        throw translateError(error, mappings);
+      },
+    }),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Helpers for reading common values from a `Request` in an httpAction,
+ * e.g. in the `input` of a `customHttpAction` mod.
+ */
+
+/**
+ * Get the token from an `Authorization: Bearer <token>` header.
+ * @param request The request passed to the httpAction.
+ * @returns The token, or null if the header is missing or not a bearer token.
+ */
+export function getBearerToken(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Get a cookie's value from the `Cookie` header.
+ * @param request The request passed to the httpAction.
+ * @param name The name of the cookie.
+ * @returns The decoded cookie value, or null if it isn't set.
+ */
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("Cookie");
+  if (!header) {
+    return null;
+  }
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+    if (pair.slice(0, index).trim() === name) {
+      const value = pair.slice(index + 1).trim();
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a query parameter from the request URL.
+ * @param request The request passed to the httpAction.
+ * @param name The name of the query parameter.
+ * @returns The parameter's value, or null if it isn't set.
+ */
+export function getQueryParam(request: Request, name: string): string | null {
+  return new URL(request.url).searchParams.get(name);
+}
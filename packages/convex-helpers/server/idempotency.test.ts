@@ -0,0 +1,150 @@
+import { mutationGeneric as mutation } from "convex/server";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { customMutation } from "./customFunctions";
+import {
+  cleanupIdempotencyKeys,
+  idempotencyMod,
+  idempotencyTables,
+} from "./idempotency";
+import { validate } from "./validators";
+
+// A builder that returns the definition, so tests can call its handler.
+const passthrough = ((fn: any) => fn) as unknown as typeof mutation;
+const idempotentMutation = customMutation(
+  passthrough,
+  idempotencyMod("test", { ttl: 1000 })
+);
+
+const newCtx = () => ({
+  db: fakeDb({
+    idempotencyKeys: { key: ["key", "name"], expiresAt: ["expiresAt"] },
+  }),
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("idempotencyMod", () => {
+  test("runs once per key and replays the result", async () => {
+    let runs = 0;
+    const fn: any = idempotentMutation({
+      args: {},
+      handler: async () => ++runs,
+    });
+    const ctx = newCtx();
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBe(1);
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBe(1);
+    expect(await fn.handler(ctx, { idempotencyKey: "b" })).toBe(2);
+    expect(runs).toBe(2);
+  });
+
+  test("always runs without a key", async () => {
+    let runs = 0;
+    const fn: any = idempotentMutation({
+      args: {},
+      handler: async () => ++runs,
+    });
+    const ctx = newCtx();
+    await fn.handler(ctx, {});
+    await fn.handler(ctx, {});
+    expect(runs).toBe(2);
+    expect(ctx.db.tables.idempotencyKeys ?? []).toHaveLength(0);
+  });
+
+  test("replays void mutations", async () => {
+    let runs = 0;
+    const fn: any = idempotentMutation({
+      args: {},
+      handler: async () => {
+        runs++;
+      },
+    });
+    const ctx = newCtx();
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBeUndefined();
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBeUndefined();
+    expect(runs).toBe(1);
+    const [stored] = ctx.db.tables.idempotencyKeys;
+    expect("result" in stored).toBe(false);
+    const { _id, _creationTime, ...fields } = stored;
+    const schema = (idempotencyTables.idempotencyKeys as any).documentType;
+    expect(validate(schema, fields)).toBeNull();
+  });
+
+  test("runs again after the result expires", async () => {
+    let runs = 0;
+    const fn: any = idempotentMutation({
+      args: {},
+      handler: async () => ++runs,
+    });
+    const ctx = newCtx();
+    await fn.handler(ctx, { idempotencyKey: "a" });
+    vi.setSystemTime(1000);
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBe(2);
+    expect(ctx.db.tables.idempotencyKeys).toHaveLength(1);
+    expect(await fn.handler(ctx, { idempotencyKey: "a" })).toBe(2);
+  });
+
+  test("doesn't store results of failed mutations", async () => {
+    const fn: any = idempotentMutation({
+      args: {},
+      handler: async () => {
+        throw new Error("oops");
+      },
+    });
+    const ctx = newCtx();
+    await expect(fn.handler(ctx, { idempotencyKey: "a" })).rejects.toThrow(
+      "oops"
+    );
+    expect(ctx.db.tables.idempotencyKeys ?? []).toHaveLength(0);
+  });
+
+  test("keeps functions sharing a key apart", async () => {
+    const ctx = newCtx();
+    const runs = { one: 0, two: 0 };
+    const one: any = customMutation(
+      passthrough,
+      idempotencyMod("one")
+    )({
+      args: {},
+      handler: async () => `one ${++runs.one}`,
+    });
+    const two: any = customMutation(
+      passthrough,
+      idempotencyMod("two")
+    )({
+      args: {},
+      handler: async () => `two ${++runs.two}`,
+    });
+    expect(await one.handler(ctx, { idempotencyKey: "a" })).toBe("one 1");
+    expect(await two.handler(ctx, { idempotencyKey: "a" })).toBe("two 1");
+    expect(await one.handler(ctx, { idempotencyKey: "a" })).toBe("one 1");
+    expect(await two.handler(ctx, { idempotencyKey: "a" })).toBe("two 1");
+    expect(runs).toEqual({ one: 1, two: 1 });
+  });
+});
+
+describe("cleanupIdempotencyKeys", () => {
+  test("deletes expired results up to the limit", async () => {
+    const fn: any = idempotentMutation({ args: {}, handler: async () => 1 });
+    const ctx = newCtx();
+    for (const key of ["a", "b", "c"]) {
+      await fn.handler(ctx, { idempotencyKey: key });
+    }
+    vi.setSystemTime(999);
+    expect(await cleanupIdempotencyKeys.handler(ctx as any, {})).toEqual({
+      deleted: 0,
+      hasMore: false,
+    });
+    vi.setSystemTime(1000);
+    expect(
+      await cleanupIdempotencyKeys.handler(ctx as any, { limit: 2 })
+    ).toEqual({ deleted: 2, hasMore: true });
+    expect(ctx.db.tables.idempotencyKeys).toHaveLength(1);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Idempotency keys for mutations.
+ *
+ * Clients can retry a mutation after a network error without knowing whether
+ * it ran. If they send the same `idempotencyKey` with each attempt, the
+ * mutation only runs once, and retries get the stored result.
+ *
+ * ```js
+ * // convex/schema.ts
+ * export default defineSchema({ ...idempotencyTables, ...otherTables });
+ *
+ * // convex/messages.ts
+ * export const send = customMutation(
+ *   mutation,
+ *   idempotencyMod("messages:send")
+ * )({
+ *   args: { body: v.string() },
+ *   handler: async (ctx, { body }) => ctx.db.insert("messages", { body }),
+ * });
+ *
+ * // convex/crons.ts
+ * crons.hourly("cleanup", { minuteUTC: 0 }, internal.idempotency.cleanup, {});
+ * // convex/idempotency.ts
+ * export const cleanup = internalMutation(cleanupIdempotencyKeys);
+ * ```
+ */
+import { Validator, v } from "convex/values";
+import {
+  DataModelFromSchemaDefinition,
+  GenericDatabaseWriter,
+  GenericMutationCtx,
+  SchemaDefinition,
+  defineTable,
+} from "convex/server";
+import { Mod } from "./customFunctions";
+
+/**
+ * The table stored results are kept in.
+ * Spread it into your schema: `defineSchema({ ...idempotencyTables, ... })`.
+ */
+export const idempotencyTables = {
+  idempotencyKeys: defineTable({
+    key: v.string(),
+    name: v.string(),
+    // Missing for mutations that return nothing.
+    result: v.optional(v.any()),
+    expiresAt: v.number(),
+  })
+    .index("key", ["key", "name"])
+    .index("expiresAt", ["expiresAt"]),
+};
+
+type IdempotencyDataModel = DataModelFromSchemaDefinition<
+  SchemaDefinition<typeof idempotencyTables, true>
+>;
+
+/**
+ * Options for `idempotencyMod`.
+ */
+export type IdempotencyOptions = {
+  /**
+   * How long to keep results for, in milliseconds. Retries after this run the
+   * mutation again. Defaults to a day.
+   */
+  ttl?: number;
+};
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * A Mod for customMutation that consumes an optional `idempotencyKey` arg.
+ * If a result is stored for the key, it's returned without running the
+ * handler. Otherwise the handler's result is stored for `ttl` milliseconds.
+ * Calls without a key always run.
+ *
+ * The result is stored in the same transaction as the handler's writes, so a
+ * mutation that throws doesn't store anything and can be retried.
+ *
+ * @param name The name to store results under, along with the key, e.g.
+ *   "messages:send". Convex doesn't tell a function its own name, so give each
+ *   function its own Mod and name: functions sharing a name would replay each
+ *   other's results for the same key.
+ * @param options The TTL for results.
+ * @returns A Mod to use with customMutation or composeMods.
+ */
+export function idempotencyMod(
+  name: string,
+  options?: IdempotencyOptions
+): Mod<
+  GenericMutationCtx<any>,
+  { idempotencyKey: Validator<string | undefined, true, never> },
+  {},
+  {}
+> {
+  const ttl = options?.ttl ?? DEFAULT_TTL;
+  return {
+    args: { idempotencyKey: v.optional(v.string()) },
+    input: async (ctx, { idempotencyKey }) => {
+      if (idempotencyKey === undefined) {
+        return { ctx: {}, args: {} };
+      }
+      const db = idempotencyDb(ctx);
+      const now = Date.now();
+      const existing = await db
+        .query("idempotencyKeys")
+        .withIndex("key", (q) => q.eq("key", idempotencyKey).eq("name", name))
+        .unique();
+      if (existing && existing.expiresAt > now) {
+        return {
+          ctx: {},
+          args: {},
+          // A stored void result is missing, so this returns undefined.
+          replaceHandler: () => existing.result,
+        };
+      }
+      return {
+        ctx: {},
+        args: {},
+        onSuccess: async (result) => {
+          const stored = { result, expiresAt: now + ttl };
+          if (existing) {
+            await db.patch(existing._id, stored);
+          } else {
+            await db.insert("idempotencyKeys", {
+              key: idempotencyKey,
+              name,
+              ...stored,
+            });
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * A mutation definition that deletes expired results.
+ * Define it with `internalMutation(cleanupIdempotencyKeys)` and run it from a
+ * cron. It deletes up to `limit` results per run, defaulting to 1000.
+ */
+export const cleanupIdempotencyKeys = {
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx: GenericMutationCtx<any>, args: { limit?: number }) => {
+    const db = idempotencyDb(ctx);
+    const limit = args.limit ?? 1000;
+    const expired = await db
+      .query("idempotencyKeys")
+      .withIndex("expiresAt", (q) => q.lte("expiresAt", Date.now()))
+      .take(limit);
+    for (const { _id } of expired) {
+      await db.delete(_id);
+    }
+    return { deleted: expired.length, hasMore: expired.length === limit };
+  },
+};
+
+// Your DataModel includes the idempotencyKeys table if you've added it to
+// your schema, but we can't check that here.
+function idempotencyDb(ctx: { db: GenericDatabaseWriter<any> }) {
+  return ctx.db as unknown as GenericDatabaseWriter<IdempotencyDataModel>;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { and, not, or, policyBuilder, predicate } from "./policies";
+import { wrapDatabaseWriter } from "./rowLevelSecurity";
+
+type Ctx = { user: string; roles: string[] };
+const alice: Ctx = { user: "alice", roles: [] };
+const admin: Ctx = { user: "root", roles: ["admin"] };
+
+const { allow, hasRole, definePolicies } = policyBuilder<Ctx, any>({
+  roles: (ctx) => ctx.roles,
+});
+const isOwner = predicate("isOwner", (ctx: Ctx, doc: any) => {
+  return doc.author === ctx.user;
+});
+const published = predicate("published", (_ctx: Ctx, doc: any) => {
+  return doc.published;
+});
+const { rules, explain } = definePolicies([
+  allow("read").on("posts").when(isOwner).or(hasRole("admin")),
+  allow("read").on("posts").when(published),
+  allow("insert", "modify").on("posts").when(isOwner),
+]);
+
+describe("predicates", () => {
+  test("combine and describe themselves", async () => {
+    const yes = predicate("yes", () => true);
+    const no = predicate("no", async () => false);
+    const combined = and(yes, or(no, not(no)));
+    expect(combined.name).toBe("yes and (no or (not no))");
+    expect(await combined.check({}, {})).toBe(true);
+    expect(await and(yes, no).check({}, {})).toBe(false);
+  });
+
+  test("check in order, stopping early", async () => {
+    const second = vi.fn(() => true);
+    expect(await and(() => false, second).check({}, {})).toBe(false);
+    expect(await or(() => true, second).check({}, {})).toBe(true);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  test("are named after functions", () => {
+    function isPublic() {
+      return true;
+    }
+    expect(not(isPublic).name).toBe("not isPublic");
+  });
+});
+
+describe("policies", () => {
+  test("are described by their operations, table, and condition", () => {
+    const policy = allow("insert", "modify").on("posts").when(isOwner);
+    expect(policy.name).toBe("allow insert, modify on posts when isOwner");
+    expect(policy.and(published).name).toBe(
+      "allow insert, modify on posts when isOwner and published"
+    );
+    expect(policy.named("owners").name).toBe("owners");
+    expect(allow("read").on("posts").or(isOwner).name).toBe(
+      "allow read on posts"
+    );
+  });
+
+  test("compile to rules", async () => {
+    const raw = fakeDb();
+    await raw.insert("posts", { author: "alice", published: false });
+    await raw.insert("posts", { author: "bob", published: false });
+    const bobs = await raw.insert("posts", { author: "bob", published: true });
+    const posts = async (ctx: Ctx) =>
+      (await wrapDatabaseWriter(ctx, raw, rules).query("posts").collect()).map(
+        (doc) => doc._id
+      );
+    expect(await posts(alice)).toEqual([raw.tables.posts[0]._id, bobs]);
+    expect(await posts(admin)).toHaveLength(3);
+    const db = wrapDatabaseWriter(alice, raw, rules);
+    await db.insert("posts", { author: "alice" });
+    await expect(db.insert("posts", { author: "bob" })).rejects.toThrow(
+      "rule: insert"
+    );
+    await expect(db.patch(bobs, { published: false })).rejects.toThrow(
+      "rule: modify"
+    );
+  });
+
+  test("leave tables without policies to the default policy", async () => {
+    expect(Object.keys(rules)).toEqual(["posts"]);
+    expect(await explain(alice, "notes", "read", { author: "alice" })).toEqual({
+      allowed: undefined,
+      policies: [],
+    });
+  });
+
+  test("explain why access is allowed or denied", async () => {
+    const post = { author: "bob", published: true };
+    expect(await explain(alice, "posts", "read", post)).toEqual({
+      allowed: true,
+      allowedBy: "allow read on posts when published",
+      policies: [
+        {
+          name: 'allow read on posts when isOwner or hasRole("admin")',
+          allowed: false,
+        },
+        { name: "allow read on posts when published", allowed: true },
+      ],
+    });
+    expect(await explain(alice, "posts", "modify", post)).toEqual({
+      allowed: false,
+      allowedBy: undefined,
+      policies: [
+        { name: "allow insert, modify on posts when isOwner", allowed: false },
+      ],
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Declarative access policies that compile to row-level security `Rules`.
+ *
+ * ```js
+ * const { allow, hasRole, definePolicies } = policyBuilder<Ctx, DataModel>({
+ *   roles: (ctx) => ctx.user?.roles ?? [],
+ * });
+ * const isOwner = predicate("isOwner", (ctx: Ctx, doc: { author: Id<"users"> }) =>
+ *   doc.author === ctx.user?._id
+ * );
+ * const { rules, explain } = definePolicies([
+ *   allow("read").on("posts").when(isOwner).or(hasRole("admin")),
+ *   allow("read").on("posts").when(predicate("published", (ctx, post) => post.published)),
+ *   allow("insert", "modify").on("posts").when(isOwner),
+ * ]);
+ * // Use the rules as usual.
+ * const db = wrapDatabaseReader(ctx, ctx.db, rules);
+ * // Find out why something was allowed or denied.
+ * console.log(await explain(ctx, "posts", "read", post));
+ * ```
+ */
+import {
+  DocumentByName,
+  GenericDataModel,
+  TableNamesInDataModel,
+  WithoutSystemFields,
+} from "convex/server";
+import { Rules } from "./rowLevelSecurity";
+
+/**
+ * The operations policies allow, matching the rules in `Rules`.
+ */
+export type PolicyOperation = "read" | "modify" | "insert";
+
+/**
+ * A named check of the ctx and document, e.g. "isOwner". The name is used by
+ * `explain` to describe policies.
+ */
+export type Predicate<Ctx, D> = {
+  name: string;
+  check: (ctx: Ctx, doc: D) => Promise<boolean>;
+};
+
+/**
+ * A predicate, or a function to use as one, named after the function.
+ */
+export type PredicateLike<Ctx, D> =
+  | Predicate<Ctx, D>
+  | ((ctx: Ctx, doc: D) => boolean | Promise<boolean>);
+
+/**
+ * Define a named, reusable predicate.
+ *
+ * @param name The name to describe it by, e.g. "isOwner".
+ * @param check Whether the ctx passes, for the document.
+ * @returns A predicate to pass to policies or combinators.
+ */
+export function predicate<Ctx, D>(
+  name: string,
+  check: (ctx: Ctx, doc: D) => boolean | Promise<boolean>
+): Predicate<Ctx, D> {
+  return { name, check: async (ctx, doc) => await check(ctx, doc) };
+}
+
+/**
+ * Passes if all the predicates pass, checking them in order.
+ */
+export function and<Ctx, D>(
+  ...predicates: PredicateLike<Ctx, D>[]
+): Predicate<Ctx, D> {
+  const all = predicates.map(toPredicate);
+  return {
+    name: all.map(nested).join(" and "),
+    check: async (ctx, doc) => {
+      for (const p of all) {
+        if (!(await p.check(ctx, doc))) {
+          return false;
+        }
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Passes if any of the predicates pass, checking them in order.
+ */
+export function or<Ctx, D>(
+  ...predicates: PredicateLike<Ctx, D>[]
+): Predicate<Ctx, D> {
+  const any = predicates.map(toPredicate);
+  return {
+    name: any.map(nested).join(" or "),
+    check: async (ctx, doc) => {
+      for (const p of any) {
+        if (await p.check(ctx, doc)) {
+          return true;
+        }
+      }
+      return false;
+    },
+  };
+}
+
+/**
+ * Passes if the predicate doesn't.
+ */
+export function not<Ctx, D>(
+  predicate: PredicateLike<Ctx, D>
+): Predicate<Ctx, D> {
+  const p = toPredicate(predicate);
+  return {
+    name: `not ${nested(p)}`,
+    check: async (ctx, doc) => !(await p.check(ctx, doc)),
+  };
+}
+
+function toPredicate<Ctx, D>(p: PredicateLike<Ctx, D>): Predicate<Ctx, D> {
+  return typeof p === "function" ? predicate(p.name || "anonymous", p) : p;
+}
+
+// Parenthesize combined predicates within others, e.g. "a and (b or c)".
+function nested(p: Predicate<any, any>) {
+  return p.name.includes(" ") ? `(${p.name})` : p.name;
+}
+
+// The document rules get for the operations: inserts don't have system fields.
+type PolicyDocument<
+  DataModel extends GenericDataModel,
+  TableName extends TableNamesInDataModel<DataModel>,
+  Operation extends PolicyOperation
+> = "insert" extends Operation
+  ? WithoutSystemFields<DocumentByName<DataModel, TableName>>
+  : DocumentByName<DataModel, TableName>;
+
+/**
+ * A policy allowing operations on a table, if its condition passes.
+ * Build one with `allow(...operations).on(table)`, which allows them
+ * unconditionally, then narrow it with `when`.
+ */
+export class Policy<Ctx, D> {
+  readonly table: string;
+  readonly operations: PolicyOperation[];
+  readonly condition?: Predicate<Ctx, D>;
+  readonly customName?: string;
+
+  constructor(
+    table: string,
+    operations: PolicyOperation[],
+    condition?: Predicate<Ctx, D>,
+    customName?: string
+  ) {
+    this.table = table;
+    this.operations = operations;
+    this.condition = condition;
+    this.customName = customName;
+  }
+
+  /**
+   * Only allow access if the predicate passes, as well as any conditions
+   * so far. The same as `and`.
+   */
+  when(predicate: PredicateLike<Ctx, D>): Policy<Ctx, D> {
+    return this.and(predicate);
+  }
+
+  /**
+   * Only allow access if the predicate passes, as well as the conditions so
+   * far.
+   */
+  and(predicate: PredicateLike<Ctx, D>): Policy<Ctx, D> {
+    return this.withCondition(
+      this.condition ? and(this.condition, predicate) : toPredicate(predicate)
+    );
+  }
+
+  /**
+   * Also allow access if the predicate passes, even if the conditions so far
+   * don't.
+   */
+  or(predicate: PredicateLike<Ctx, D>): Policy<Ctx, D> {
+    // Without a condition, access is already allowed.
+    return this.condition
+      ? this.withCondition(or(this.condition, predicate))
+      : this;
+  }
+
+  /**
+   * Name the policy, for `explain`. By default it's described by its
+   * operations, table, and condition.
+   */
+  named(name: string): Policy<Ctx, D> {
+    return new Policy(this.table, this.operations, this.condition, name);
+  }
+
+  get name(): string {
+    if (this.customName) {
+      return this.customName;
+    }
+    const allow = `allow ${this.operations.join(", ")} on ${this.table}`;
+    return this.condition ? `${allow} when ${this.condition.name}` : allow;
+  }
+
+  async allows(ctx: Ctx, doc: D): Promise<boolean> {
+    return this.condition ? await this.condition.check(ctx, doc) : true;
+  }
+
+  private withCondition(condition: Predicate<Ctx, D>): Policy<Ctx, D> {
+    return new Policy(this.table, this.operations, condition, this.customName);
+  }
+}
+
+/**
+ * Why `explain` says an access is allowed or denied.
+ */
+export type PolicyExplanation = {
+  /**
+   * Whether any policy allows the access. Undefined if there are no policies
+   * for the table, so `wrapDatabaseReader`'s `defaultPolicy` decides.
+   */
+  allowed: boolean | undefined;
+  /**
+   * The first policy that allows the access, if any.
+   */
+  allowedBy?: string;
+  /**
+   * Every policy for the table and operation, in order, and whether each
+   * allows the access. If none do, access is denied.
+   */
+  policies: { name: string; allowed: boolean }[];
+};
+
+/**
+ * Options for `policyBuilder`.
+ */
+export type PolicyBuilderOptions<Ctx> = {
+  /**
+   * The roles the ctx has, for `hasRole`, e.g. from the user's document.
+   */
+  roles?: (ctx: Ctx) => string[] | undefined | Promise<string[] | undefined>;
+};
+
+/**
+ * Make functions to define policies for your ctx and data model.
+ *
+ * @param options Where to find the ctx's roles.
+ * @returns
+ * - `allow(...operations).on(table)` to start a policy.
+ * - `hasRole(role)`, a predicate that the ctx has the role.
+ * - `definePolicies(policies)` to compile policies to `rules` for
+ *   `wrapDatabaseReader`/`Writer`, along with `explain`.
+ */
+export function policyBuilder<Ctx, DataModel extends GenericDataModel>(
+  options?: PolicyBuilderOptions<Ctx>
+) {
+  const allow = <Operation extends PolicyOperation>(
+    ...operations: Operation[]
+  ) => ({
+    on: <TableName extends TableNamesInDataModel<DataModel>>(
+      table: TableName
+    ) =>
+      new Policy<Ctx, PolicyDocument<DataModel, TableName, Operation>>(
+        table,
+        operations
+      ),
+  });
+
+  const hasRole = (role: string): Predicate<Ctx, unknown> =>
+    predicate(`hasRole(${JSON.stringify(role)})`, async (ctx: Ctx) => {
+      const roles = (await options?.roles?.(ctx)) ?? [];
+      return roles.includes(role);
+    });
+
+  const definePolicies = (policies: Policy<Ctx, any>[]) => {
+    const policiesFor = (table: string, operation: PolicyOperation) =>
+      policies.filter(
+        (p) => p.table === table && p.operations.includes(operation)
+      );
+    const check =
+      (table: string, operation: PolicyOperation) =>
+      async (ctx: Ctx, doc: any) => {
+        for (const policy of policiesFor(table, operation)) {
+          if (await policy.allows(ctx, doc)) {
+            return true;
+          }
+        }
+        return false;
+      };
+    // Tables with policies deny operations no policy allows. Tables without
+    // policies aren't in the rules, so the RLS default policy applies.
+    const rules: Record<string, Record<PolicyOperation, any>> = {};
+    for (const { table } of policies) {
+      rules[table] = {
+        read: check(table, "read"),
+        modify: check(table, "modify"),
+        insert: check(table, "insert"),
+      };
+    }
+
+    /**
+     * Check every policy for an access, to debug why it's allowed or denied.
+     *
+     * @param ctx The ctx the rules get.
+     * @param table The table being accessed.
+     * @param operation The operation.
+     * @param doc The document, or the value being inserted.
+     * @returns Whether it's allowed, and what each policy said.
+     */
+    const explain = async <TableName extends TableNamesInDataModel<DataModel>>(
+      ctx: Ctx,
+      table: TableName,
+      operation: PolicyOperation,
+      doc:
+        | DocumentByName<DataModel, TableName>
+        | WithoutSystemFields<DocumentByName<DataModel, TableName>>
+    ): Promise<PolicyExplanation> => {
+      const results = [];
+      for (const policy of policiesFor(table, operation)) {
+        results.push({
+          name: policy.name,
+          allowed: await policy.allows(ctx, doc),
+        });
+      }
+      return {
+        allowed: rules[table] ? results.some((r) => r.allowed) : undefined,
+        allowedBy: results.find((r) => r.allowed)?.name,
+        policies: results,
+      };
+    };
+
+    return { rules: rules as Rules<Ctx, DataModel>, explain };
+  };
+
+  return { allow, hasRole, definePolicies };
+}
@@ -0,0 +1,196 @@
+import { mutationGeneric as mutation } from "convex/server";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { customMutation } from "./customFunctions";
+import {
+  MINUTE,
+  SECOND,
+  defineRateLimits,
+  isRateLimitError,
+} from "./rateLimit";
+
+const { checkRateLimit, rateLimit, resetRateLimit, rateLimitMod } =
+  defineRateLimits({
+    bucket: { kind: "token bucket", rate: 10, period: MINUTE, capacity: 3 },
+    window: { kind: "fixed window", rate: 2, period: MINUTE },
+  });
+
+const newCtx = () => ({
+  db: fakeDb({ rateLimits: { name: ["name", "key"] } }),
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("token bucket", () => {
+  test("allows bursts up to capacity", async () => {
+    const ctx = newCtx();
+    for (let i = 0; i < 3; i++) {
+      expect((await checkRateLimit(ctx, "bucket")).ok).toBe(true);
+    }
+    // One token takes 6 seconds to refill.
+    expect(await checkRateLimit(ctx, "bucket")).toEqual({
+      ok: false,
+      retryAfter: 6 * SECOND,
+    });
+  });
+
+  test("refills at the rate, not before", async () => {
+    const ctx = newCtx();
+    await checkRateLimit(ctx, "bucket", undefined, { count: 3 });
+    vi.setSystemTime(6 * SECOND - 1);
+    const early = await checkRateLimit(ctx, "bucket");
+    expect(early.ok).toBe(false);
+    expect(early.retryAfter).toBeCloseTo(1);
+    vi.setSystemTime(6 * SECOND);
+    expect((await checkRateLimit(ctx, "bucket")).ok).toBe(true);
+    expect((await checkRateLimit(ctx, "bucket")).ok).toBe(false);
+  });
+
+  test("refills up to capacity", async () => {
+    const ctx = newCtx();
+    await checkRateLimit(ctx, "bucket", undefined, { count: 3 });
+    vi.setSystemTime(10 * MINUTE);
+    expect(
+      (await checkRateLimit(ctx, "bucket", undefined, { count: 3 })).ok
+    ).toBe(true);
+    expect((await checkRateLimit(ctx, "bucket")).ok).toBe(false);
+  });
+
+  test("doesn't use tokens when denied", async () => {
+    const ctx = newCtx();
+    await checkRateLimit(ctx, "bucket", undefined, { count: 2 });
+    expect(
+      (await checkRateLimit(ctx, "bucket", undefined, { count: 2 })).ok
+    ).toBe(false);
+    expect((await checkRateLimit(ctx, "bucket")).ok).toBe(true);
+  });
+
+  test("rejects counts over capacity", async () => {
+    await expect(
+      checkRateLimit(newCtx(), "bucket", undefined, { count: 4 })
+    ).rejects.toThrow("capacity 3");
+  });
+});
+
+describe("fixed window", () => {
+  test("allows the rate per window", async () => {
+    const ctx = newCtx();
+    vi.setSystemTime(5 * SECOND);
+    expect((await checkRateLimit(ctx, "window")).ok).toBe(true);
+    vi.setSystemTime(20 * SECOND);
+    expect((await checkRateLimit(ctx, "window")).ok).toBe(true);
+    // The window started with the first use.
+    expect(await checkRateLimit(ctx, "window")).toEqual({
+      ok: false,
+      retryAfter: 45 * SECOND,
+    });
+  });
+
+  test("rolls over exactly at the end of the window", async () => {
+    const ctx = newCtx();
+    await checkRateLimit(ctx, "window", undefined, { count: 2 });
+    vi.setSystemTime(MINUTE - 1);
+    expect(await checkRateLimit(ctx, "window")).toEqual({
+      ok: false,
+      retryAfter: 1,
+    });
+    vi.setSystemTime(MINUTE);
+    expect(
+      (await checkRateLimit(ctx, "window", undefined, { count: 2 })).ok
+    ).toBe(true);
+    expect((await checkRateLimit(ctx, "window")).ok).toBe(false);
+  });
+
+  test("keeps windows aligned after idle periods", async () => {
+    const ctx = newCtx();
+    await checkRateLimit(ctx, "window", undefined, { count: 2 });
+    vi.setSystemTime(3 * MINUTE + 10 * SECOND);
+    await checkRateLimit(ctx, "window", undefined, { count: 2 });
+    // The current window started at 3 minutes, not 3m10s.
+    expect(await checkRateLimit(ctx, "window")).toEqual({
+      ok: false,
+      retryAfter: 50 * SECOND,
+    });
+  });
+});
+
+describe("rateLimit", () => {
+  test("limits each key separately", async () => {
+    const ctx = newCtx();
+    await rateLimit(ctx, "window", "a", { count: 2 });
+    await rateLimit(ctx, "window", "b", { count: 2 });
+    await expect(rateLimit(ctx, "window", "a")).rejects.toSatisfy(
+      isRateLimitError
+    );
+  });
+
+  test("throws a ConvexError with when to retry", async () => {
+    const ctx = newCtx();
+    await rateLimit(ctx, "window", undefined, { count: 2 });
+    const error = await rateLimit(ctx, "window").catch((e) => e);
+    expect(isRateLimitError(error)).toBe(true);
+    expect(error.data).toMatchObject({
+      code: "RATE_LIMITED",
+      data: { name: "window", retryAfter: MINUTE },
+    });
+  });
+
+  test("can be reset", async () => {
+    const ctx = newCtx();
+    await rateLimit(ctx, "window", undefined, { count: 2 });
+    await resetRateLimit(ctx, "window");
+    await rateLimit(ctx, "window", undefined, { count: 2 });
+  });
+
+  test("rejects unknown limits", async () => {
+    await expect(checkRateLimit(newCtx(), "nope" as "window")).rejects.toThrow(
+      'Rate limit "nope" is not defined.'
+    );
+  });
+});
+
+describe("rateLimitMod", () => {
+  const passthrough = ((fn: any) => fn) as unknown as typeof mutation;
+
+  test("checks the limit in mutations", async () => {
+    const limited: any = customMutation(
+      passthrough,
+      rateLimitMod("window", { count: 2 })
+    )({ args: {}, handler: async () => "ok" });
+    const ctx = newCtx();
+    expect(await limited.handler(ctx, {})).toBe("ok");
+    await expect(limited.handler(ctx, {})).rejects.toSatisfy(isRateLimitError);
+  });
+
+  test("runs the mutation option in actions", async () => {
+    const runMutation = vi.fn(async () => ({
+      ok: false as const,
+      retryAfter: SECOND,
+    }));
+    const mod = rateLimitMod("window", {
+      key: () => "k",
+      mutation: "rateLimits:check" as any,
+    });
+    await expect(mod.input!({ runMutation } as any, {})).rejects.toSatisfy(
+      isRateLimitError
+    );
+    expect(runMutation).toHaveBeenCalledWith("rateLimits:check", {
+      name: "window",
+      key: "k",
+      count: undefined,
+    });
+  });
+
+  test("needs the mutation option in actions", async () => {
+    const mod = rateLimitMod("window");
+    await expect(
+      mod.input!({ runMutation: vi.fn() } as any, {})
+    ).rejects.toThrow("needs a `mutation` option");
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Rate limiting for Convex functions, stored in your database.
+ *
+ * Define your limits once, add the table to your schema, and either check
+ * them in your functions or use `rateLimitMod` with `customMutation` or
+ * `customAction`:
+ *
+ * ```js
+ * // convex/schema.ts
+ * export default defineSchema({ ...rateLimitTables, ...otherTables });
+ *
+ * // convex/rateLimits.ts
+ * export const { checkRateLimit, rateLimit, rateLimitMod } = defineRateLimits({
+ *   // Sustained rate of 10 per minute, with bursts of up to 3 at once.
+ *   sendMessage: { kind: "token bucket", rate: 10, period: MINUTE, capacity: 3 },
+ *   // At most 5 per hour.
+ *   failedLogins: { kind: "fixed window", rate: 5, period: HOUR },
+ * });
+ * ```
+ */
+import { ConvexError, PropertyValidators, v } from "convex/values";
+import {
+  DataModelFromSchemaDefinition,
+  FunctionReference,
+  GenericActionCtx,
+  GenericDatabaseWriter,
+  GenericMutationCtx,
+  SchemaDefinition,
+  defineTable,
+} from "convex/server";
+import { Mod } from "./customFunctions";
+import { AppErrorData, appError } from "./errors";
+import { ArgsOutput } from "./validators";
+
+export const SECOND = 1000;
+export const MINUTE = 60 * SECOND;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+/**
+ * The table rate limit state is stored in.
+ * Spread it into your schema: `defineSchema({ ...rateLimitTables, ... })`.
+ */
+export const rateLimitTables = {
+  rateLimits: defineTable({
+    name: v.string(),
+    key: v.optional(v.string()),
+    // Tokens left for a token bucket, or the count used for a fixed window.
+    value: v.number(),
+    // When the tokens were last counted, or when the window started.
+    ts: v.number(),
+  }).index("name", ["name", "key"]),
+};
+
+type RateLimitDataModel = DataModelFromSchemaDefinition<
+  SchemaDefinition<typeof rateLimitTables, true>
+>;
+
+/**
+ * A token bucket refills at `rate` tokens per `period` milliseconds, up to
+ * `capacity` tokens, which is how many can be used in a burst.
+ * It starts full.
+ */
+export type TokenBucketConfig = {
+  kind: "token bucket";
+  rate: number;
+  period: number;
+  /** Defaults to `rate`. */
+  capacity?: number;
+};
+
+/**
+ * A fixed window allows `rate` uses per `period` milliseconds. The first
+ * window starts with the first use.
+ */
+export type FixedWindowConfig = {
+  kind: "fixed window";
+  rate: number;
+  period: number;
+};
+
+export type RateLimitConfig = TokenBucketConfig | FixedWindowConfig;
+
+/**
+ * The result of checking a rate limit.
+ * `retryAfter` is how many milliseconds to wait before trying again.
+ */
+export type RateLimitStatus =
+  | { ok: true; retryAfter: undefined }
+  | { ok: false; retryAfter: number };
+
+/**
+ * The `data` of the `ConvexError` thrown when a rate limit is exceeded.
+ */
+export type RateLimitErrorData = AppErrorData<"RATE_LIMITED"> & {
+  data: { name: string; retryAfter: number };
+};
+
+/**
+ * Check whether an error was thrown because a rate limit was exceeded, e.g.
+ * on the client to tell the user when to retry.
+ *
+ * @param error The error that was thrown.
+ * @returns Whether the error is a `ConvexError` with `RateLimitErrorData`.
+ */
+export function isRateLimitError(
+  error: unknown
+): error is ConvexError<RateLimitErrorData> {
+  return (
+    error instanceof ConvexError &&
+    typeof error.data === "object" &&
+    error.data !== null &&
+    error.data.code === "RATE_LIMITED"
+  );
+}
+
+/**
+ * Options for checking a rate limit.
+ */
+export type RateLimitOptions = {
+  /** How many to use at once. Defaults to 1. */
+  count?: number;
+};
+
+type RateLimitCtx = { db: GenericDatabaseWriter<any> };
+
+// Actions check limits by running a mutation.
+type RateLimitActionCtx = Pick<GenericActionCtx<any>, "runMutation">;
+
+// The args for a mutation that checks a rate limit on behalf of an action.
+// Define one with `internalMutation(rateLimitMutation)` from defineRateLimits.
+type RateLimitMutationArgs = {
+  name: string;
+  key?: string;
+  count?: number;
+};
+
+/**
+ * Options for a rate limiting Mod.
+ */
+export type RateLimitModOptions<
+  Ctx extends RateLimitCtx | RateLimitActionCtx,
+  ModArgsValidator extends PropertyValidators
+> = RateLimitOptions & {
+  /**
+   * Arguments to read the key from, e.g. `{ sessionId: v.id("sessions") }`.
+   * They're passed on to the handler too.
+   */
+  args?: ModArgsValidator;
+  /**
+   * The key to rate limit by, e.g. the user's ID. If it's not provided or
+   * returns undefined, the limit is shared by all calls.
+   */
+  key?: (
+    ctx: Ctx,
+    args: ArgsOutput<ModArgsValidator>
+  ) => string | undefined | Promise<string | undefined>;
+  /**
+   * For actions, which can't write to the database: a mutation defined with
+   * `internalMutation(rateLimitMutation)` to check the limit with.
+   */
+  mutation?: FunctionReference<
+    "mutation",
+    "internal",
+    RateLimitMutationArgs,
+    RateLimitStatus
+  >;
+};
+
+/**
+ * Define named rate limits.
+ *
+ * @param limits Rate limit configurations by name.
+ * @returns Functions to check the limits by name:
+ *   - `checkRateLimit(ctx, name, key?)` uses the limit if it's not exceeded,
+ *     and returns `{ ok, retryAfter }`.
+ *   - `rateLimit(ctx, name, key?)` does the same, but throws a `ConvexError`
+ *     with `RateLimitErrorData` if the limit is exceeded.
+ *   - `resetRateLimit(ctx, name, key?)` clears the limit's state.
+ *   - `rateLimitMod(name, options)` is a Mod that calls `rateLimit` before the
+ *     handler runs.
+ *   - `rateLimitMutation` is a mutation definition for actions to call.
+ */
+export function defineRateLimits<
+  Limits extends Record<string, RateLimitConfig>
+>(limits: Limits) {
+  type Name = keyof Limits & string;
+
+  async function checkRateLimit(
+    ctx: RateLimitCtx,
+    name: Name,
+    key?: string,
+    options?: RateLimitOptions
+  ): Promise<RateLimitStatus> {
+    const config = limits[name];
+    if (!config) {
+      throw new Error(`Rate limit "${name}" is not defined.`);
+    }
+    const count = options?.count ?? 1;
+    const now = Date.now();
+    const db = rateLimitDb(ctx);
+    const existing = await getState(db, name, key);
+    const { state, retryAfter } = nextState(config, existing, count, now);
+    if (retryAfter !== undefined) {
+      return { ok: false, retryAfter };
+    }
+    if (existing) {
+      await db.patch(existing._id, state);
+    } else {
+      await db.insert("rateLimits", { name, key, ...state });
+    }
+    return { ok: true, retryAfter: undefined };
+  }
+
+  async function rateLimit(
+    ctx: RateLimitCtx,
+    name: Name,
+    key?: string,
+    options?: RateLimitOptions
+  ): Promise<void> {
+    const status = await checkRateLimit(ctx, name, key, options);
+    throwIfLimited(name, status);
+  }
+
+  async function resetRateLimit(
+    ctx: RateLimitCtx,
+    name: Name,
+    key?: string
+  ): Promise<void> {
+    const db = rateLimitDb(ctx);
+    const existing = await getState(db, name, key);
+    if (existing) {
+      await db.delete(existing._id);
+    }
+  }
+
+  function rateLimitMod<
+    Ctx extends RateLimitCtx | RateLimitActionCtx,
+    ModArgsValidator extends PropertyValidators = {}
+  >(
+    name: Name,
+    options?: RateLimitModOptions<Ctx, ModArgsValidator>
+  ): Mod<Ctx, ModArgsValidator, {}, ArgsOutput<ModArgsValidator>> {
+    return {
+      args: options?.args ?? ({} as ModArgsValidator),
+      input: async (ctx, args) => {
+        const key = await options?.key?.(ctx, args);
+        const limitCtx: RateLimitCtx | RateLimitActionCtx = ctx;
+        if (options?.mutation && "runMutation" in limitCtx) {
+          const status: RateLimitStatus = await limitCtx.runMutation(
+            options.mutation,
+            { name, key, count: options.count }
+          );
+          throwIfLimited(name, status);
+        } else if ("db" in limitCtx) {
+          await rateLimit(limitCtx, name, key, options);
+        } else {
+          throw new Error(
+            "rateLimitMod needs a `mutation` option when used with actions."
+          );
+        }
+        return { ctx: {}, args };
+      },
+    };
+  }
+
+  const rateLimitMutation = {
+    args: {
+      name: v.string(),
+      key: v.optional(v.string()),
+      count: v.optional(v.number()),
+    },
+    handler: (
+      ctx: GenericMutationCtx<any>,
+      { name, key, count }: RateLimitMutationArgs
+    ) => checkRateLimit(ctx, name, key, { count }),
+  };
+
+  return {
+    checkRateLimit,
+    rateLimit,
+    resetRateLimit,
+    rateLimitMod,
+    rateLimitMutation,
+  };
+}
+
+type RateLimitState = { value: number; ts: number };
+
+// Your DataModel includes the rateLimits table if you've added it to your
+// schema, but we can't check that here.
+function rateLimitDb(ctx: RateLimitCtx) {
+  return ctx.db as unknown as GenericDatabaseWriter<RateLimitDataModel>;
+}
+
+async function getState(
+  db: GenericDatabaseWriter<RateLimitDataModel>,
+  name: string,
+  key: string | undefined
+) {
+  return db
+    .query("rateLimits")
+    .withIndex("name", (q) => q.eq("name", name).eq("key", key))
+    .unique();
+}
+
+/**
+ * Work out the state after using `count`, or how long to wait until `count`
+ * is available.
+ */
+function nextState(
+  config: RateLimitConfig,
+  existing: RateLimitState | null,
+  count: number,
+  now: number
+): { state: RateLimitState; retryAfter?: number } {
+  if (config.kind === "token bucket") {
+    const capacity = config.capacity ?? config.rate;
+    if (count > capacity) {
+      throw new Error(
+        `Can't use ${count} at once from a rate limit with capacity ${capacity}.`
+      );
+    }
+    const tokens = existing
+      ? Math.min(
+          capacity,
+          existing.value + ((now - existing.ts) * config.rate) / config.period
+        )
+      : capacity;
+    if (tokens < count) {
+      const retryAfter = ((count - tokens) * config.period) / config.rate;
+      return { state: { value: tokens, ts: now }, retryAfter };
+    }
+    return { state: { value: tokens - count, ts: now } };
+  }
+  if (count > config.rate) {
+    throw new Error(
+      `Can't use ${count} at once from a rate limit of ${config.rate}.`
+    );
+  }
+  let windowStart = existing?.ts ?? now;
+  let used = existing?.value ?? 0;
+  if (now >= windowStart + config.period) {
+    windowStart +=
+      Math.floor((now - windowStart) / config.period) * config.period;
+    used = 0;
+  }
+  if (used + count > config.rate) {
+    const retryAfter = windowStart + config.period - now;
+    return { state: { value: used, ts: windowStart }, retryAfter };
+  }
+  return { state: { value: used + count, ts: windowStart } };
+}
+
+function throwIfLimited(name: string, status: RateLimitStatus) {
+  if (!status.ok) {
+    throw appError(
+      "RATE_LIMITED",
+      `Rate limit "${name}" exceeded. Retry after ${Math.ceil(
+        status.retryAfter / SECOND
+      )}s.`,
+      { name, retryAfter: status.retryAfter }
+    ) as ConvexError<RateLimitErrorData>;
+  }
+}
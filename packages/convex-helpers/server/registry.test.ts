@@ -0,0 +1,61 @@
+import {
+  httpActionGeneric as httpAction,
+  internalMutationGeneric as internalMutation,
+  internalQueryGeneric as internalQuery,
+  mutationGeneric as mutation,
+  queryGeneric as query,
+} from "convex/server";
+import { v } from "convex/values";
+import { describe, expect, test } from "vitest";
+import {
+  customCtx,
+  customHttpAction,
+  customMutationWithInternal,
+  customQuery,
+} from "./customFunctions";
+import { functionRegistry } from "./registry";
+
+describe("functionRegistry", () => {
+  test("records the type and visibility of each function", () => {
+    const noOp = customCtx(() => ({}));
+    const modules = {
+      posts: {
+        list: customQuery(query, noOp)({ args: {}, handler: async () => [] }),
+        count: customQuery(
+          internalQuery,
+          noOp
+        )({
+          args: {},
+          handler: async () => 0,
+        }),
+        ...(() => {
+          const { public: create, internal: createForUser } =
+            customMutationWithInternal(
+              mutation,
+              internalMutation,
+              { args: {}, input: async () => ({ ctx: {}, args: {} }) },
+              { args: {}, input: async () => ({ ctx: {}, args: {} }) }
+            )({ args: { title: v.string() }, handler: async () => null });
+          return { create, createForUser };
+        })(),
+        notRegistered: query(async () => null),
+      },
+      http: {
+        default: customHttpAction(httpAction, {
+          input: async () => ({ ctx: {} }),
+        })(async () => new Response()),
+      },
+    };
+    const catalog = functionRegistry.catalog(modules);
+    expect(
+      catalog.map(({ name, type, visibility }) => [name, type, visibility])
+    ).toEqual([
+      ["posts:list", "query", "public"],
+      ["posts:count", "query", "internal"],
+      ["posts:create", "mutation", "public"],
+      ["posts:createForUser", "mutation", "internal"],
+      ["http", "httpAction", "public"],
+    ]);
+    expect(catalog[2].args).toHaveProperty("title");
+  });
+});
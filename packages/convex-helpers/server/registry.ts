@@ -0,0 +1,169 @@
+/**
+ * A registry of functions defined with the custom function builders, along
+ * with their metadata. Useful for tooling, e.g. generating an API catalog or
+ * failing a test when a public mutation doesn't require authentication.
+ *
+ * Example test:
+ * ```js
+ * import * as posts from "../convex/posts";
+ * import * as users from "../convex/users";
+ * import { functionRegistry } from "convex-helpers/server/registry";
+ *
+ * test("public mutations require auth", () => {
+ *   const catalog = functionRegistry.catalog({ posts, users });
+ *   for (const fn of catalog) {
+ *     if (fn.type === "mutation" && fn.visibility === "public") {
+ *       expect(fn.meta.auth, fn.name).toBeDefined();
+ *     }
+ *   }
+ * });
+ * ```
+ */
+import { PropertyValidators } from "convex/values";
+import {
+  FunctionVisibility,
+  RegisteredAction,
+  RegisteredMutation,
+  RegisteredQuery,
+} from "convex/server";
+
+/**
+ * Metadata describing a function. Can be declared on a Mod, so it applies to
+ * every function using that Mod, or on a function definition.
+ */
+export type FunctionMetadata = {
+  /** A human-readable description of what the function does. */
+  description?: string;
+  /** Tags to group functions by, e.g. "billing" or "admin". */
+  tags?: string[];
+  /** The authentication the function requires, e.g. "user" or "admin". */
+  auth?: string;
+  /** Whether the function is deprecated, or a message saying what to use. */
+  deprecated?: boolean | string;
+};
+
+/**
+ * What the registry knows about a registered function.
+ */
+export type RegisteredFunctionInfo = {
+  type: "query" | "mutation" | "action" | "httpAction";
+  visibility: "public" | "internal";
+  /**
+   * All argument validators, including those consumed by Mods.
+   * null if the function doesn't validate its arguments.
+   */
+  args: PropertyValidators | null;
+  meta: FunctionMetadata;
+  /** The value returned by the builder, which is exported from your module. */
+  registration: unknown;
+};
+
+/**
+ * Records the functions defined with customQuery, customMutation, etc.
+ * httpActions are recorded too, but have no `args`.
+ *
+ * Functions are only registered when their module is imported, so import
+ * every module you want to inspect first. Their names aren't known until
+ * they're exported, so use `catalog` to look them up by module.
+ */
+export class FunctionRegistry {
+  entries: Map<unknown, RegisteredFunctionInfo> = new Map();
+
+  /**
+   * Record a function, merging with any existing entry. This happens when a
+   * custom builder is built on top of another custom builder.
+   */
+  record(
+    registration: unknown,
+    info: Omit<RegisteredFunctionInfo, "registration">
+  ) {
+    const existing = this.entries.get(registration);
+    this.entries.set(registration, {
+      type: info.type,
+      visibility: info.visibility,
+      // The innermost builder sees all the args, including its own mod's.
+      args: existing?.args ?? info.args,
+      meta: mergeMetadata(existing?.meta ?? {}, info.meta),
+      registration,
+    });
+  }
+
+  /**
+   * @param registration A function exported from your module.
+   * @returns What the registry knows about it, if it was registered.
+   */
+  get(registration: unknown): RegisteredFunctionInfo | undefined {
+    return this.entries.get(registration);
+  }
+
+  /**
+   * @returns All registered functions, in the order they were defined.
+   */
+  list(): RegisteredFunctionInfo[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Name registered functions by the modules that export them.
+   *
+   * @param modules Map of module paths to modules, e.g. `{ "posts": posts }`
+   *   from `import * as posts from "./posts"`.
+   * @returns Registered functions with names like "posts:create", as used by
+   *   Convex. Exports that weren't registered are skipped.
+   */
+  catalog(
+    modules: Record<string, Record<string, unknown>>
+  ): (RegisteredFunctionInfo & { name: string })[] {
+    const catalog = [];
+    for (const [modulePath, module] of Object.entries(modules)) {
+      for (const [exportName, value] of Object.entries(module)) {
+        const info = this.entries.get(value);
+        if (info) {
+          const name =
+            exportName === "default"
+              ? modulePath
+              : `${modulePath}:${exportName}`;
+          catalog.push({ ...info, name });
+        }
+      }
+    }
+    return catalog;
+  }
+}
+
+/**
+ * The registry that custom function builders record into.
+ */
+export const functionRegistry = new FunctionRegistry();
+
+/**
+ * Merge metadata, with `override` taking precedence and tags combined.
+ */
+export function mergeMetadata(
+  base: FunctionMetadata,
+  override: FunctionMetadata
+): FunctionMetadata {
+  const merged = { ...base, ...override };
+  if (base.tags || override.tags) {
+    merged.tags = [
+      ...new Set([...(base.tags ?? []), ...(override.tags ?? [])]),
+    ];
+  }
+  return merged;
+}
+
+/**
+ * Whether a function registered with a builder like `query` or
+ * `internalQuery` is public or internal, from the `isInternal` property its
+ * type declares.
+ */
+export function visibilityOf(
+  registration:
+    | RegisteredQuery<FunctionVisibility, any, any>
+    | RegisteredMutation<FunctionVisibility, any, any>
+    | RegisteredAction<FunctionVisibility, any, any>
+): FunctionVisibility {
+  return "isInternal" in registration && registration.isInternal
+    ? "internal"
+    : "public";
+}
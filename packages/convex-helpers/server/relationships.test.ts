@@ -0,0 +1,196 @@
+import {
+  DataModelFromSchemaDefinition,
+  DocumentByName,
+  defineSchema,
+  defineTable,
+} from "convex/server";
+import { v } from "convex/values";
+import { describe, expect, test } from "vitest";
+import { NullDocumentError } from "..";
+import { fakeDb } from "../test/fakeDb";
+import {
+  MissingDocumentsError,
+  defineRelationships,
+  documentLoader,
+  getAll,
+  getAllOrThrow,
+} from "./relationships";
+
+const setup = async () => {
+  const db = fakeDb();
+  const a = await db.insert("users", { name: "a" });
+  const b = await db.insert("users", { name: "b" });
+  const gone = await db.insert("users", { name: "gone" });
+  await db.delete(gone);
+  db.reads = 0;
+  return { db, a, b, gone };
+};
+const names = (docs: any[]) => docs.map((doc) => doc?.name ?? null);
+
+describe("getAll", () => {
+  test("reads each distinct ID once, in order", async () => {
+    const { db, a, b, gone } = await setup();
+    expect(names(await getAll(db, [a, b, a, gone, a]))).toEqual([
+      "a",
+      "b",
+      "a",
+      null,
+      "a",
+    ]);
+    expect(db.reads).toBe(3);
+  });
+
+  test("getAllOrThrow lists every missing ID once", async () => {
+    const { db, a, gone } = await setup();
+    const other = await db.insert("users", {});
+    await db.delete(other);
+    const error = await getAllOrThrow(db, [gone, a, other, gone]).catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(MissingDocumentsError);
+    expect(error).toBeInstanceOf(NullDocumentError);
+    expect(error.ids).toEqual([gone, other]);
+    expect(error.message).toBe(
+      `Can't find documents with IDs: ${gone}, ${other}`
+    );
+    expect(names(await getAllOrThrow(db, [a]))).toEqual(["a"]);
+  });
+});
+
+describe("documentLoader", () => {
+  test("shares reads between calls", async () => {
+    const { db, a, b } = await setup();
+    const loader = documentLoader(db);
+    await loader.getAll([a, b]);
+    expect(names([await loader.get(a)])).toEqual(["a"]);
+    await loader.getAllOrThrow([b, a]);
+    expect(db.reads).toBe(2);
+  });
+
+  test("reads cleared documents again", async () => {
+    const { db, a, b } = await setup();
+    const loader = documentLoader(db);
+    await loader.getAll([a, b]);
+    await db.patch(a, { name: "a2" });
+    expect((await loader.get(a))?.name).toBe("a");
+    loader.clear(a);
+    expect((await loader.get(a))?.name).toBe("a2");
+    expect(db.reads).toBe(3);
+    loader.clear();
+    await loader.getAll([a, b]);
+    expect(db.reads).toBe(5);
+  });
+});
+
+describe("defineRelationships", () => {
+  const schema = defineSchema({
+    users: defineTable({ name: v.string() }),
+    posts: defineTable({
+      title: v.string(),
+      authorId: v.union(v.id("users"), v.null()),
+      editorId: v.optional(v.id("users")),
+    }),
+    comments: defineTable({
+      postId: v.id("posts"),
+      authorId: v.id("users"),
+      body: v.string(),
+    }).index("postId", ["postId"]),
+    tags: defineTable({ name: v.string() }),
+    postTags: defineTable({ postId: v.id("posts"), tagId: v.id("tags") }).index(
+      "postId",
+      ["postId"]
+    ),
+  });
+  type DataModel = DataModelFromSchemaDefinition<typeof schema>;
+  const { load } = defineRelationships(schema, {
+    posts: (r) => ({
+      author: r.one("users", "authorId"),
+      editor: r.one("users", "editorId"),
+      comments: r.many("comments", "postId"),
+      tags: r.via("tags", "postTags", "tagId", "postId"),
+    }),
+    comments: (r) => ({ author: r.one("users", "authorId") }),
+  });
+
+  const setup = async () => {
+    const db = fakeDb({
+      comments: { postId: ["postId"] },
+      postTags: { postId: ["postId"] },
+    });
+    const alice = await db.insert("users", { name: "alice" });
+    const bob = await db.insert("users", { name: "bob" });
+    const postId = await db.insert("posts", {
+      title: "hi",
+      authorId: alice,
+    });
+    for (const [authorId, body] of [
+      [bob, "first"],
+      [alice, "second"],
+      [bob, "third"],
+    ]) {
+      await db.insert("comments", { postId, authorId, body });
+    }
+    let tagId;
+    for (const name of ["a", "b", "gone"]) {
+      tagId = await db.insert("tags", { name });
+      await db.insert("postTags", { postId, tagId });
+    }
+    await db.delete(tagId!);
+    const post = (await db.get(postId)) as DocumentByName<DataModel, "posts">;
+    db.reads = 0;
+    return { db, post, alice, bob };
+  };
+
+  test("loads one related document by ID", async () => {
+    const { db, post } = await setup();
+    const loaded = await load(db, post, { author: true, editor: true });
+    expect(loaded.author?.name).toBe("alice");
+    // The editor field is unset.
+    expect(loaded.editor).toBeNull();
+  });
+
+  test("loads null references as null", async () => {
+    const { db, post } = await setup();
+    await db.patch(post._id, { authorId: null });
+    const loaded = await load(
+      db,
+      { ...post, authorId: null },
+      {
+        author: true,
+      }
+    );
+    expect(loaded.author).toBeNull();
+    expect(db.reads).toBe(0);
+  });
+
+  test("loads one missing document as null", async () => {
+    const { db, post, alice } = await setup();
+    await db.delete(alice);
+    expect((await load(db, post, { author: true })).author).toBeNull();
+  });
+
+  test("loads many and via relationships, nested and limited", async () => {
+    const { db, post } = await setup();
+    const loaded = await load(db, post, {
+      author: true,
+      comments: { _limit: 2, author: true },
+      tags: true,
+    });
+    expect(loaded.comments).toHaveLength(2);
+    expect(loaded.comments[0].body).toBe("first");
+    expect(loaded.comments[0].author?.name).toBe("bob");
+    expect(loaded.comments[1].body).toBe("second");
+    expect(loaded.comments[1].author?.name).toBe("alice");
+    // Missing tags are left out.
+    expect(loaded.tags.map((tag) => tag.name)).toEqual(["a", "b"]);
+    // Alice is read once, for the post and her comment, then Bob and the tags.
+    expect(db.reads).toBe(5);
+  });
+
+  test("throws on undeclared relationships", async () => {
+    const { db, post } = await setup();
+    await expect(load(db, post, { nope: true } as {})).rejects.toThrow(
+      'No relationship "nope" declared on posts'
+    );
+  });
+});
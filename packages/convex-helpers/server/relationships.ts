@@ -1,5 +1,7 @@
 import {
+  DataModelFromSchemaDefinition,
   FieldTypeFromFieldPath,
+  SchemaDefinition,
   TableNamesInDataModel,
   GenericDataModel,
   GenericDatabaseReader,
@@ -7,12 +9,97 @@ import {
   SystemTableNames,
 } from "convex/server";
 import { GenericId } from "convex/values";
-import { asyncMap, nullThrows } from "..";
+import { NullDocumentError, asyncMap, nullThrows, pruneNull } from "..";
+
+/**
+ * Thrown by `getAllOrThrow` when any documents are missing, listing their IDs.
+ */
+export class MissingDocumentsError extends NullDocumentError {
+  readonly ids: GenericId<string>[];
+
+  constructor(ids: GenericId<string>[]) {
+    super(`Can't find documents with IDs: ${ids.join(", ")}`);
+    this.ids = ids;
+  }
+}
+
+/**
+ * Reads documents by ID, reading each at most once. See `documentLoader`.
+ */
+export type DocumentLoader<DataModel extends GenericDataModel> = {
+  /**
+   * Get a document by ID, reading it at most once.
+   */
+  get<TableName extends TableNamesInDataModel<DataModel>>(
+    id: GenericId<TableName>
+  ): Promise<DocumentByName<DataModel, TableName> | null>;
+  /**
+   * Get documents by ID, in order, reading each distinct ID at most once.
+   * `null` for documents not found.
+   */
+  getAll<TableName extends TableNamesInDataModel<DataModel>>(
+    ids: Iterable<GenericId<TableName>>
+  ): Promise<(DocumentByName<DataModel, TableName> | null)[]>;
+  /**
+   * Get documents by ID, in order, reading each distinct ID at most once.
+   * Throws a `MissingDocumentsError` listing every ID not found.
+   */
+  getAllOrThrow<TableName extends TableNamesInDataModel<DataModel>>(
+    ids: Iterable<GenericId<TableName>>
+  ): Promise<DocumentByName<DataModel, TableName>[]>;
+  /**
+   * Forget a loaded document, e.g. after changing it, or all of them.
+   */
+  clear(id?: GenericId<string>): void;
+};
+
+/**
+ * Make a loader that caches documents by ID, for one request.
+ * Like a DataLoader scoped to the function's ctx: make one per request, and
+ * share it between the helpers that read the same documents, e.g.:
+ * ```js
+ * const loader = documentLoader(ctx.db);
+ * const authors = await loader.getAll(posts.map((post) => post.authorId));
+ * // Doesn't read the authors again.
+ * const editors = await loader.getAll(posts.map((post) => post.editorId));
+ * ```
+ * Reads see the documents as they were first loaded, so `clear` documents
+ * the function changes to read them again.
+ *
+ * @param db A DatabaseReader, usually passed from a mutation or query ctx.
+ * @returns A loader to read documents through.
+ */
+export function documentLoader<DataModel extends GenericDataModel>(
+  db: GenericDatabaseReader<DataModel>
+): DocumentLoader<DataModel> {
+  const loaded = new Map<string, Promise<any>>();
+  const get = (id: GenericId<any>) => {
+    if (!loaded.has(id)) {
+      loaded.set(id, db.get(id));
+    }
+    return loaded.get(id)!;
+  };
+  return {
+    get,
+    getAll: (ids) => asyncMap(ids, get),
+    getAllOrThrow: async (ids) => {
+      const idList = [...ids];
+      const docs = await asyncMap(idList, get);
+      const missing = idList.filter((_id, i) => docs[i] === null);
+      if (missing.length > 0) {
+        throw new MissingDocumentsError([...new Set(missing)]);
+      }
+      return docs;
+    },
+    clear: (id) => (id === undefined ? loaded.clear() : loaded.delete(id)),
+  };
+}
 
 /**
  * getAll returns a list of Documents (or null) for the `Id`s passed in.
  *
- * Nulls are returned for documents not found.
+ * Nulls are returned for documents not found. Each distinct ID is read once.
+ * To share reads between calls, use `documentLoader`.
  * @param db A DatabaseReader, usually passed from a mutation or query ctx.
  * @param ids An list (or other iterable) of Ids pointing to a table.
  * @returns The Documents referenced by the Ids, in order. `null` if not found.
@@ -24,16 +111,18 @@ export async function getAll<
   db: GenericDatabaseReader<DataModel>,
   ids: Iterable<GenericId<TableName>>
 ): Promise<(DocumentByName<DataModel, TableName> | null)[]> {
-  return asyncMap(ids, db.get);
+  return documentLoader(db).getAll(ids);
 }
 
 /**
  * getAllOrThrow returns a list of Documents for the `Id`s passed in.
  *
- * It throws if any documents are not found (null).
+ * It throws a `MissingDocumentsError` listing every ID not found.
+ * Each distinct ID is read once. To share reads between calls, use
+ * `documentLoader`.
  * @param db A DatabaseReader, usually passed from a mutation or query ctx.
  * @param ids An list (or other iterable) of Ids pointing to a table.
- * @returns The Documents referenced by the Ids, in order. `null` if not found.
+ * @returns The Documents referenced by the Ids, in order.
  */
 export async function getAllOrThrow<
   DataModel extends GenericDataModel,
@@ -42,7 +131,7 @@ export async function getAllOrThrow<
   db: GenericDatabaseReader<DataModel>,
   ids: Iterable<GenericId<TableName>>
 ): Promise<DocumentByName<DataModel, TableName>[]> {
-  return await asyncMap(ids, async (id) => nullThrows(await db.get(id)));
+  return documentLoader(db).getAllOrThrow(ids);
 }
 
 type UserIndexes<
@@ -388,3 +477,345 @@ export async function getManyViaOrThrow<
     }
   );
 }
+
+/**
+ * A relationship from one table to another, declared with
+ * `defineRelationships` and loaded with its `load`.
+ * - "one": A field on the document holds the related document's ID.
+ * - "many": Related documents hold the document's ID in an indexed field.
+ * - "via": A join table links the document to the related documents.
+ */
+export type Relationship<
+  To extends string,
+  Type extends "one" | "many" | "via"
+> = {
+  type: Type;
+  table: To;
+  field: string;
+  index?: string;
+  through?: string;
+  toField?: string;
+};
+
+// Field paths holding IDs of the table, including optional ones.
+type ReferenceFieldPaths<
+  DataModel extends GenericDataModel,
+  InTableName extends TableNamesInDataModel<DataModel>,
+  TableName extends TableNamesInDataModel<DataModel>
+> = {
+  [FieldName in DataModel[InTableName]["fieldPaths"]]: NonNullable<
+    FieldTypeFromFieldPath<DocumentByName<DataModel, InTableName>, FieldName>
+  > extends GenericId<TableName>
+    ? FieldName extends "_id"
+      ? never
+      : FieldName
+    : never;
+}[DataModel[InTableName]["fieldPaths"]];
+
+// Indexes on a table starting with a field holding IDs of another table.
+type BackrefIndexes<
+  DataModel extends GenericDataModel,
+  TableName extends TablesWithLookups<DataModel>,
+  FromTableName extends TableNamesInDataModel<DataModel>
+> = {
+  [Index in UserIndexes<DataModel, TableName>]: NonNullable<
+    FieldTypeFromFieldPath<
+      DocumentByName<DataModel, TableName>,
+      DataModel[TableName]["indexes"][Index][0]
+    >
+  > extends GenericId<FromTableName>
+    ? Index
+    : never;
+}[UserIndexes<DataModel, TableName>];
+
+/**
+ * Declares the relationships from documents in a table.
+ */
+export type RelationshipBuilder<
+  DataModel extends GenericDataModel,
+  FromTableName extends TableNamesInDataModel<DataModel>
+> = {
+  /**
+   * One related document, whose ID is in a field of the document.
+   * Loads as the document, or null if the field is unset or it's missing.
+   *
+   * @param table The related table.
+   * @param field The field on the document holding the related ID.
+   */
+  one<
+    TableName extends TableNamesInDataModel<DataModel>,
+    Field extends ReferenceFieldPaths<DataModel, FromTableName, TableName>
+  >(
+    table: TableName,
+    field: Field
+  ): Relationship<TableName, "one">;
+  /**
+   * Related documents holding the document's ID, like `getManyFrom`.
+   * Loads as a list.
+   *
+   * @param table The related table.
+   * @param index The index on that table to look up the document's ID by.
+   * @param field The field on that table holding the document's ID.
+   *   Optional if the index is named after the field.
+   */
+  many<
+    TableName extends TablesWithLookups<DataModel>,
+    IndexName extends BackrefIndexes<DataModel, TableName, FromTableName>
+  >(
+    table: TableName,
+    index: IndexName,
+    ...fieldArg: FieldIfDoesntMatchIndex<DataModel, TableName, IndexName>
+  ): Relationship<TableName, "many">;
+  /**
+   * Related documents linked by a join table, like `getManyVia`.
+   * Loads as a list, leaving out missing documents.
+   *
+   * @param table The related table.
+   * @param through The join table.
+   * @param toField The field on the join table holding the related IDs.
+   * @param index The index on the join table to look up the document's ID by.
+   * @param field The field on the join table holding the document's ID.
+   *   Optional if the index is named after the field.
+   */
+  via<
+    TableName extends TableNamesInDataModel<DataModel>,
+    JoinTableName extends JoinTables<DataModel>,
+    ToField extends IdFilePaths<DataModel, JoinTableName, TableName>,
+    IndexName extends BackrefIndexes<DataModel, JoinTableName, FromTableName>
+  >(
+    table: TableName,
+    through: JoinTableName,
+    toField: ToField,
+    index: IndexName,
+    ...fieldArg: FieldIfDoesntMatchIndex<DataModel, JoinTableName, IndexName>
+  ): Relationship<TableName, "via">;
+};
+
+/**
+ * For each table, a function declaring its relationships by name.
+ */
+export type RelationshipDefinitions<DataModel extends GenericDataModel> = {
+  [T in TableNamesInDataModel<DataModel>]?: (
+    r: RelationshipBuilder<DataModel, T>
+  ) => Record<string, Relationship<any, any>>;
+};
+
+type DeclaredRelationships<Definitions> = {
+  [T in keyof Definitions]: Definitions[T] extends (r: any) => infer R
+    ? R
+    : never;
+};
+
+type RelationshipsOf<Relationships, TableName> =
+  TableName extends keyof Relationships ? Relationships[TableName] : {};
+
+/**
+ * Which relationships to load from a table's documents. For each, `true`
+ * loads the related documents, and an object also loads their relationships.
+ * For lists, `_limit` is the most related documents to load.
+ */
+export type LoadSpec<Relationships, TableName> = {
+  [Name in keyof RelationshipsOf<Relationships, TableName>]?: RelationshipsOf<
+    Relationships,
+    TableName
+  >[Name] extends Relationship<infer To, infer Type>
+    ?
+        | true
+        | (LoadSpec<Relationships, To> &
+            (Type extends "one" ? { _limit?: never } : { _limit?: number }))
+    : never;
+};
+
+/**
+ * A document with the relationships in `Spec` loaded into fields named after
+ * them.
+ */
+export type Loaded<
+  DataModel extends GenericDataModel,
+  Relationships,
+  TableName extends TableNamesInDataModel<DataModel>,
+  Spec
+> = DocumentByName<DataModel, TableName> & {
+  [Name in keyof Spec &
+    keyof RelationshipsOf<Relationships, TableName>]: RelationshipsOf<
+    Relationships,
+    TableName
+  >[Name] extends Relationship<infer To, infer Type>
+    ? To extends TableNamesInDataModel<DataModel>
+      ? Type extends "one"
+        ? LoadedRelated<DataModel, Relationships, To, Spec[Name]> | null
+        : LoadedRelated<DataModel, Relationships, To, Spec[Name]>[]
+      : never
+    : never;
+};
+
+type LoadedRelated<
+  DataModel extends GenericDataModel,
+  Relationships,
+  TableName extends TableNamesInDataModel<DataModel>,
+  Spec
+> = Spec extends true
+  ? DocumentByName<DataModel, TableName>
+  : Loaded<DataModel, Relationships, TableName, Spec>;
+
+/**
+ * Declare the relationships between your tables once, to load related
+ * documents by name instead of spelling out tables and indexes each time.
+ *
+ * e.g.
+ * ```js
+ * // convex/schema.ts
+ * const schema = defineSchema({ ... });
+ * export default schema;
+ *
+ * export const { load } = defineRelationships(schema, {
+ *   posts: (r) => ({
+ *     // posts.authorId is an Id<"users">
+ *     author: r.one("users", "authorId"),
+ *     // comments are indexed by postId
+ *     comments: r.many("comments", "postId"),
+ *     // postCategories links postId to categoryId
+ *     categories: r.via("categories", "postCategories", "categoryId", "postId"),
+ *   }),
+ *   comments: (r) => ({ author: r.one("users", "authorId") }),
+ * });
+ *
+ * // convex/posts.ts
+ * const post = await load(ctx.db, doc, {
+ *   author: true,
+ *   comments: { _limit: 10, author: true },
+ * });
+ * // post.comments[0].author?.name
+ * ```
+ * Related documents are read through a `documentLoader`, so each is read
+ * once per `load`.
+ *
+ * @param schema Your schema, from `defineSchema`.
+ * @param definitions For each table, a function declaring its relationships.
+ * @returns
+ * - `relationships`, the declared relationships for each table.
+ * - `load(db, doc, spec)`, returning the document with the relationships in
+ *   `spec` loaded. See `LoadSpec`.
+ */
+export function defineRelationships<
+  Schema extends SchemaDefinition<any, boolean>,
+  Definitions extends RelationshipDefinitions<
+    DataModelFromSchemaDefinition<Schema>
+  >
+>(schema: Schema, definitions: Definitions) {
+  type DataModel = DataModelFromSchemaDefinition<Schema>;
+  type Relationships = DeclaredRelationships<Definitions>;
+  const builder: RelationshipBuilder<any, any> = {
+    one: (table, field) => ({ type: "one", table, field }),
+    many: (table, index, ...fieldArg) => ({
+      type: "many",
+      table,
+      index,
+      field: fieldArg[0] ?? index,
+    }),
+    via: (table, through, toField, index, ...fieldArg) => ({
+      type: "via",
+      table,
+      through,
+      toField,
+      index,
+      field: fieldArg[0] ?? index,
+    }),
+  };
+  const relationships = Object.fromEntries(
+    Object.entries(
+      definitions as Record<string, (r: typeof builder) => unknown>
+    ).map(([table, define]) => [table, define(builder)])
+  ) as Relationships;
+  const tableNames = Object.keys(schema.tables);
+
+  const loadRelated = async (
+    db: GenericDatabaseReader<DataModel>,
+    loader: DocumentLoader<DataModel>,
+    relationship: Relationship<string, "one" | "many" | "via">,
+    doc: Record<string, any>,
+    limit: number | undefined
+  ): Promise<any> => {
+    const { type, table, field, index, through, toField } = relationship;
+    if (type === "one") {
+      const id = field
+        .split(".")
+        .reduce((value: any, key) => value?.[key], doc);
+      // Unset and null references both load as null.
+      return id == null ? null : await loader.get(id);
+    }
+    const query = db
+      .query(type === "via" ? through! : table)
+      .withIndex(index!, (q) => q.eq(field, doc._id));
+    const found =
+      limit === undefined ? await query.collect() : await query.take(limit);
+    if (type === "many") {
+      return found;
+    }
+    return pruneNull(
+      await loader.getAll(found.map((link: any) => link[toField!]))
+    );
+  };
+
+  const loadDocument = async (
+    db: GenericDatabaseReader<DataModel>,
+    loader: DocumentLoader<DataModel>,
+    tableName: string,
+    doc: Record<string, any>,
+    spec: Record<string, any>
+  ): Promise<any> => {
+    const loaded: Record<string, any> = { ...doc };
+    await asyncMap(Object.entries(spec), async ([name, nested]) => {
+      if (name === "_limit" || !nested) {
+        return;
+      }
+      const relationship = (relationships as any)[tableName]?.[name];
+      if (!relationship) {
+        throw new Error(`No relationship "${name}" declared on ${tableName}`);
+      }
+      const related = await loadRelated(
+        db,
+        loader,
+        relationship,
+        doc,
+        nested === true ? undefined : nested._limit
+      );
+      const loadNested = async (relatedDoc: Record<string, any>) =>
+        nested === true
+          ? relatedDoc
+          : loadDocument(db, loader, relationship.table, relatedDoc, nested);
+      loaded[name] =
+        relationship.type === "one"
+          ? related && (await loadNested(related))
+          : await asyncMap(related, loadNested);
+    });
+    return loaded;
+  };
+
+  /**
+   * Load a document's related documents, by relationship name.
+   *
+   * @param db DatabaseReader, passed in from the function ctx
+   * @param doc The document to load related documents for.
+   * @param spec Which relationships to load. See `LoadSpec`.
+   * @returns The document with a field for each loaded relationship.
+   */
+  const load = async <
+    TableName extends TableNamesInDataModel<DataModel>,
+    Spec extends LoadSpec<Relationships, TableName>
+  >(
+    db: GenericDatabaseReader<DataModel>,
+    doc: DocumentByName<DataModel, TableName> & { _id: GenericId<TableName> },
+    spec: Spec
+  ): Promise<Loaded<DataModel, Relationships, TableName, Spec>> => {
+    const tableName = tableNames.find((table) =>
+      db.normalizeId(table, doc._id)
+    );
+    if (!tableName) {
+      throw new Error(`Can't find the table for document ${doc._id}`);
+    }
+    return await loadDocument(db, documentLoader(db), tableName, doc, spec);
+  };
+
+  return { relationships, load };
+}
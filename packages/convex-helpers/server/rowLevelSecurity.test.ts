@@ -0,0 +1,670 @@
+import {
+  GenericDatabaseReader,
+  mutationGeneric as mutation,
+  queryGeneric as query,
+} from "convex/server";
+import { GenericId, v } from "convex/values";
+import { describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import {
+  AccessCheck,
+  AccessDeniedError,
+  BasicRowLevelSecurity,
+  DocumentNotFoundError,
+  RLSPaginationResult,
+  RowLevelSecurity,
+  Rules,
+  paginateWithRLS,
+  ruleLoader,
+  wrapDatabaseReader,
+  wrapDatabaseWriter,
+} from "./rowLevelSecurity";
+
+type Ctx = { user: string };
+
+describe("field rules", () => {
+  const rules: Rules<Ctx, any> = {
+    users: {
+      fields: {
+        email: {
+          read: async ({ user }, doc) => doc.name === user,
+          write: async ({ user }, doc) => doc.name === user,
+        },
+        role: { write: async () => false },
+      },
+    },
+  };
+  const setup = async () => {
+    const raw = fakeDb();
+    const alice = await raw.insert("users", { name: "alice", email: "a@x" });
+    const bob = await raw.insert("users", { name: "bob", email: "b@x" });
+    const denials: AccessCheck[] = [];
+    const db = wrapDatabaseWriter({ user: "alice" }, raw, rules, {
+      onDenied: (denial) => denials.push(denial),
+    });
+    return { raw, db, alice, bob, denials };
+  };
+
+  test("remove fields the ctx can't read", async () => {
+    const { db, alice, bob, denials } = await setup();
+    expect(await db.get(alice)).toMatchObject({ email: "a@x" });
+    const other = await db.get(bob);
+    expect(other).toMatchObject({ name: "bob" });
+    expect(other).not.toHaveProperty("email");
+    expect(denials).toEqual([
+      { table: "users", id: bob, operation: "read", rule: "fields.email.read" },
+    ]);
+    const emails = (docs: any[]) => docs.map((doc) => doc.email);
+    expect(emails(await db.query("users").collect())).toEqual([
+      "a@x",
+      undefined,
+    ]);
+    expect(emails(await db.query("users").take(2))).toEqual(["a@x", undefined]);
+    expect(emails([await db.query("users").order("desc").first()])).toEqual([
+      undefined,
+    ]);
+    const { page } = await db
+      .query("users")
+      .paginate({ numItems: 2, cursor: null });
+    expect(emails(page)).toEqual(["a@x", undefined]);
+  });
+
+  test("readers remove fields too", async () => {
+    const { raw, bob } = await setup();
+    const reader = wrapDatabaseReader({ user: "alice" }, raw, rules);
+    expect(await reader.get(bob)).not.toHaveProperty("email");
+  });
+
+  test("throw on writes to fields the ctx can't write", async () => {
+    const { raw, db, alice, bob } = await setup();
+    await db.patch(alice, { email: "new@x" });
+    await expect(db.patch(bob, { email: "new@x" })).rejects.toThrow(
+      new AccessDeniedError({
+        table: "users",
+        id: bob,
+        operation: "patch",
+        rule: "fields.email.write",
+      })
+    );
+    await expect(db.patch(alice, { role: "admin" })).rejects.toThrow(
+      "rule: fields.role.write"
+    );
+    await expect(
+      db.insert("users", { name: "carol", role: "admin" })
+    ).rejects.toThrow("rule: fields.role.write");
+    expect(raw.tables.users.map((doc) => doc.email)).toEqual(["new@x", "b@x"]);
+  });
+
+  test("check only the fields a patch changes", async () => {
+    const { raw, db, alice, bob } = await setup();
+    await raw.patch(alice, { role: "user" });
+    await db.patch(alice, { name: "alice", role: "user" });
+    await db.patch(bob, { email: "b@x", age: 3 });
+    await expect(db.patch(alice, { role: "admin" })).rejects.toThrow(
+      "rule: fields.role.write"
+    );
+    await expect(db.patch(bob, { email: undefined })).rejects.toThrow(
+      "rule: fields.email.write"
+    );
+    expect(raw.tables.users).toMatchObject([
+      { role: "user" },
+      { email: "b@x", age: 3 },
+    ]);
+  });
+
+  test("check only the fields a replace changes", async () => {
+    const { raw, db, bob } = await setup();
+    await db.replace(bob, { name: "bob", email: "b@x", age: 3 });
+    await expect(db.replace(bob, { name: "bob", age: 3 })).rejects.toThrow(
+      "rule: fields.email.write"
+    );
+    expect(raw.tables.users[1]).toMatchObject({ email: "b@x", age: 3 });
+  });
+});
+
+describe("paginateWithRLS", () => {
+  // Posts ranked 0 to 9, of which the ones whose rank isn't a multiple of 3
+  // are visible.
+  const setup = async (visible = (rank: number) => rank % 3 !== 0) => {
+    const raw = fakeDb({ posts: { rank: ["rank"] } });
+    for (let rank = 0; rank < 10; rank++) {
+      await raw.insert("posts", { rank });
+    }
+    const db = wrapDatabaseReader({}, raw, {
+      posts: { read: async (_ctx, doc) => visible(doc.rank as number) },
+    });
+    const query = () => db.query("posts").withIndex("rank");
+    return { raw, db, query };
+  };
+  const ranks = (docs: any[]) => docs.map((doc) => doc.rank);
+
+  test("fills pages across batches", async () => {
+    const { query } = await setup();
+    const pages = [];
+    let cursor: string | null = null;
+    for (;;) {
+      const result: RLSPaginationResult<any> = await paginateWithRLS(
+        query(),
+        { numItems: 2, cursor },
+        { maxScan: 4 }
+      );
+      pages.push(ranks(result.page));
+      expect(result.returned).toBe(result.page.length);
+      cursor = result.continueCursor;
+      if (result.isDone) {
+        break;
+      }
+    }
+    // Pages are short at the end of each batch of 4.
+    expect(pages).toEqual([[1, 2], [], [4, 5], [7], [8]]);
+  });
+
+  test("returns empty pages when a whole batch is denied", async () => {
+    const { query } = await setup((rank) => rank >= 8);
+    const first = await paginateWithRLS(
+      query(),
+      { numItems: 2, cursor: null },
+      { maxScan: 4 }
+    );
+    expect(first).toMatchObject({ page: [], isDone: false, scanned: 4 });
+    const second = await paginateWithRLS(
+      query(),
+      { numItems: 2, cursor: first.continueCursor },
+      { maxScan: 4 }
+    );
+    expect(second).toMatchObject({ page: [], isDone: false, scanned: 4 });
+    const third = await paginateWithRLS(
+      query(),
+      { numItems: 2, cursor: second.continueCursor },
+      { maxScan: 4 }
+    );
+    expect(ranks(third.page)).toEqual([8, 9]);
+    expect(third.isDone).toBe(true);
+  });
+
+  test("stays done at the end of the table", async () => {
+    const { query } = await setup();
+    const all = await paginateWithRLS(query(), { numItems: 10, cursor: null });
+    expect(all.isDone).toBe(true);
+    expect(all.scanned).toBe(10);
+    const after = await paginateWithRLS(query(), {
+      numItems: 10,
+      cursor: all.continueCursor,
+    });
+    expect(after).toMatchObject({ page: [], isDone: true, scanned: 0 });
+  });
+
+  test("resumes after the last document read", async () => {
+    const { raw, query } = await setup(() => true);
+    const opts = { maxScan: 10 };
+    const first = await paginateWithRLS(
+      query(),
+      { numItems: 3, cursor: null },
+      opts
+    );
+    expect(ranks(first.page)).toEqual([0, 1, 2]);
+    // Documents inserted or deleted before the cursor don't shift the page.
+    await raw.insert("posts", { rank: -1 });
+    await raw.insert("posts", { rank: -2 });
+    await raw.delete(first.page[0]._id as GenericId<"posts">);
+    const second = await paginateWithRLS(
+      query(),
+      { numItems: 3, cursor: first.continueCursor },
+      opts
+    );
+    expect(ranks(second.page)).toEqual([3, 4, 5]);
+  });
+
+  test("returns empty pages without moving for numItems: 0", async () => {
+    const { query } = await setup(() => true);
+    const opts = { maxScan: 4 };
+    const first = await paginateWithRLS(
+      query(),
+      { numItems: 2, cursor: null },
+      opts
+    );
+    const empty = await paginateWithRLS(
+      query(),
+      { numItems: 0, cursor: first.continueCursor },
+      opts
+    );
+    expect(empty).toMatchObject({ page: [], isDone: false, scanned: 0 });
+    const next = await paginateWithRLS(
+      query(),
+      { numItems: 2, cursor: empty.continueCursor },
+      opts
+    );
+    expect(ranks(next.page)).toEqual([2, 3]);
+    const fromStart = await paginateWithRLS(
+      query(),
+      { numItems: 0, cursor: null },
+      opts
+    );
+    expect(fromStart).toMatchObject({ page: [], isDone: false, scanned: 0 });
+  });
+
+  test("rejects cursors it didn't return", async () => {
+    const { raw, query } = await setup();
+    const { continueCursor } = await raw
+      .query("posts")
+      .paginate({ numItems: 1, cursor: null });
+    await expect(
+      paginateWithRLS(query(), { numItems: 1, cursor: continueCursor })
+    ).rejects.toThrow("paginateWithRLS needs a cursor it returned");
+    await expect(
+      paginateWithRLS(query(), { numItems: 1, cursor: "[null,0,5]" })
+    ).rejects.toThrow("paginateWithRLS needs a cursor it returned");
+  });
+
+  test("paginates unwrapped queries as usual", async () => {
+    const { raw } = await setup();
+    const result = await paginateWithRLS(raw.query("posts").order("asc"), {
+      numItems: 4,
+      cursor: null,
+    });
+    expect(ranks(result.page)).toEqual([0, 1, 2, 3]);
+    expect(result).toMatchObject({ scanned: 4, returned: 4, isDone: false });
+  });
+});
+
+describe("memoize", () => {
+  const setup = async (read: (doc: any) => Promise<boolean>) => {
+    const raw = fakeDb();
+    const id = await raw.insert("posts", { public: true });
+    const rule = vi.fn(async (_ctx: {}, doc: any) => await read(doc));
+    const db = wrapDatabaseWriter(
+      {},
+      raw,
+      { posts: { read: rule } },
+      { memoize: true }
+    );
+    return { raw, db, id, rule };
+  };
+
+  test("checks each document once", async () => {
+    const { db, id, rule } = await setup(async (doc) => doc.public);
+    await db.get(id);
+    await db.get(id);
+    await db.query("posts").collect();
+    expect(rule).toHaveBeenCalledTimes(1);
+  });
+
+  test("checks again after writes through the wrapped db", async () => {
+    const { raw, db, id, rule } = await setup(async (doc) => doc.public);
+    await db.patch(id, { public: false });
+    expect(await db.get(id)).toBeNull();
+    // Writes made elsewhere aren't noticed.
+    await raw.patch(id, { public: true });
+    expect(await db.get(id)).toBeNull();
+    expect(rule).toHaveBeenCalledTimes(2);
+  });
+
+  test("forgets checks where the rule throws", async () => {
+    let fail = true;
+    const { db, id, rule } = await setup(async () => {
+      if (fail) {
+        throw new Error("flaky");
+      }
+      return true;
+    });
+    await expect(db.get(id)).rejects.toThrow("flaky");
+    fail = false;
+    expect(await db.get(id)).not.toBeNull();
+    expect(await db.get(id)).not.toBeNull();
+    expect(rule).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("readMany", () => {
+  test("checks documents in batches", async () => {
+    const raw = fakeDb();
+    for (let n = 0; n < 5; n++) {
+      await raw.insert("posts", { n });
+    }
+    const readMany = vi.fn(async (_ctx: {}, docs: any[]) =>
+      docs.map((doc) => doc.n % 2 === 0)
+    );
+    const read = vi.fn(async () => false);
+    const db = wrapDatabaseReader({}, raw, { posts: { read, readMany } });
+    const ns = (docs: any[]) => docs.map((doc) => doc.n);
+    expect(ns(await db.query("posts").collect())).toEqual([0, 2, 4]);
+    expect(readMany).toHaveBeenCalledTimes(1);
+    expect(ns(await db.query("posts").take(2))).toEqual([0, 2]);
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  test("must return a result per document", async () => {
+    const raw = fakeDb();
+    await raw.insert("posts", {});
+    const db = wrapDatabaseReader({}, raw, {
+      posts: { readMany: async () => [] },
+    });
+    await expect(db.query("posts").collect()).rejects.toThrow(
+      "readMany for posts returned 0 results for 1 documents"
+    );
+  });
+});
+
+describe("ruleLoader", () => {
+  test("reads each document once", async () => {
+    const raw = fakeDb();
+    const id = await raw.insert("teams", { name: "a" });
+    const loader = ruleLoader(raw);
+    const [a, b] = await Promise.all([loader.get(id), loader.get(id)]);
+    expect(a).toEqual(b);
+    expect(raw.reads).toBe(1);
+  });
+
+  test("loads each key once, unless it fails", async () => {
+    const loader = ruleLoader(fakeDb());
+    const fn = vi
+      .fn<[], Promise<number>>()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue(1);
+    await expect(loader.load("key", fn)).rejects.toThrow("flaky");
+    expect(await loader.load("key", fn)).toBe(1);
+    expect(await loader.load("key", fn)).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("defaultPolicy", () => {
+  const setup = async (options: { warnMissingRules?: boolean } = {}) => {
+    const raw = fakeDb();
+    const note = await raw.insert("notes", { text: "a" });
+    const post = await raw.insert("posts", { text: "b" });
+    const db = wrapDatabaseWriter(
+      {},
+      raw,
+      { posts: { read: async () => true } },
+      { defaultPolicy: "deny", ...options }
+    );
+    return { raw, db, note, post };
+  };
+
+  test("denies tables without rules", async () => {
+    const { raw, db, note } = await setup();
+    expect(await db.get(note)).toBeNull();
+    expect(() => db.query("notes")).toThrow(
+      new AccessDeniedError({
+        table: "notes",
+        operation: "read",
+        rule: "defaultPolicy",
+      })
+    );
+    await expect(db.insert("notes", {})).rejects.toThrow(
+      "insert access not allowed on notes (rule: defaultPolicy)"
+    );
+    // Documents it can't read are reported as missing.
+    await expect(db.patch(note, { text: "b" })).rejects.toThrow(
+      new DocumentNotFoundError({ id: note, operation: "patch" })
+    );
+    await expect(db.delete(note)).rejects.toThrow(
+      new DocumentNotFoundError({ id: note, operation: "delete" })
+    );
+    expect(raw.tables.notes).toHaveLength(1);
+  });
+
+  test("allows operations tables with rules have no rule for", async () => {
+    const { raw, db, post } = await setup();
+    await db.insert("posts", { text: "c" });
+    await db.patch(post, { text: "d" });
+    expect(raw.tables.posts.map((doc) => doc.text)).toEqual(["d", "c"]);
+  });
+
+  test("allows tables without rules by default", async () => {
+    const raw = fakeDb();
+    const note = await raw.insert("notes", { text: "a" });
+    const db = wrapDatabaseWriter({}, raw, {});
+    expect(await db.get(note)).not.toBeNull();
+    await db.insert("notes", {});
+    expect(await db.query("notes").collect()).toHaveLength(2);
+  });
+
+  test("warns once per table without rules", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const { db, note } = await setup({ warnMissingRules: true });
+      await db.get(note);
+      await db.get(note);
+      expect(() => db.query("notes")).toThrow();
+      expect(() => db.query("notes")).toThrow();
+      await db.get((await db.insert("posts", {})) as any);
+      expect(warn.mock.calls).toEqual([
+        [
+          `No row-level security rules for the table of document ${note}. ` +
+            "Denying access by default.",
+        ],
+        [
+          'No row-level security rules for table "notes". ' +
+            "Denying access by default.",
+        ],
+      ]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe("write access", () => {
+  const setup = async () => {
+    const raw = fakeDb();
+    const mine = await raw.insert("posts", { author: "alice" });
+    const shared = await raw.insert("posts", { author: "bob", shared: true });
+    const hidden = await raw.insert("posts", { author: "bob" });
+    const missing = await raw.insert("posts", { author: "bob" });
+    await raw.delete(missing);
+    const denials: AccessCheck[] = [];
+    const db = wrapDatabaseWriter(
+      { user: "alice" },
+      raw,
+      {
+        posts: {
+          read: async ({ user }, doc) => doc.author === user || !!doc.shared,
+          modify: async ({ user }, doc) => doc.author === user,
+          insert: async ({ user }, doc) => doc.author === user,
+        },
+      },
+      { onDenied: (denial) => denials.push(denial) }
+    );
+    return { raw, db, mine, shared, hidden, missing, denials };
+  };
+
+  const errorOf = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error("Expected the write to fail");
+      },
+      (e: Error) => e
+    );
+
+  test("can't tell unreadable documents from missing ones", async () => {
+    const { db, hidden, missing } = await setup();
+    for (const [operation, write] of [
+      ["patch", (id: any) => db.patch(id, { title: "x" })],
+      ["replace", (id: any) => db.replace(id, { author: "bob" })],
+      ["delete", (id: any) => db.delete(id)],
+    ] as const) {
+      const hiddenError = await errorOf(write(hidden));
+      const missingError = await errorOf(write(missing));
+      expect(hiddenError).toBeInstanceOf(DocumentNotFoundError);
+      expect(missingError).toBeInstanceOf(DocumentNotFoundError);
+      expect(hiddenError).toMatchObject({ id: hidden, operation });
+      expect(missingError).toMatchObject({ id: missing, operation });
+      expect(hiddenError.message.replace(hidden, "ID")).toBe(
+        missingError.message.replace(missing, "ID")
+      );
+    }
+  });
+
+  test("denies writes to readable documents", async () => {
+    const { raw, db, mine, shared, denials } = await setup();
+    await db.patch(mine, { title: "mine" });
+    const error = await errorOf(db.patch(shared, { title: "x" }));
+    expect(error).toBeInstanceOf(AccessDeniedError);
+    expect(error).toMatchObject({
+      table: "posts",
+      id: shared,
+      operation: "patch",
+      rule: "modify",
+    });
+    await expect(db.insert("posts", { author: "bob" })).rejects.toThrow(
+      "insert access not allowed on posts (rule: insert)"
+    );
+    expect(raw.tables.posts.map((doc) => doc.title)).toEqual([
+      "mine",
+      undefined,
+      undefined,
+    ]);
+    expect(denials.map((d) => d.rule)).toEqual(["modify", "insert"]);
+  });
+
+  test("still reports read denials to onDenied", async () => {
+    const { db, hidden, denials } = await setup();
+    await expect(db.delete(hidden)).rejects.toThrow("does not exist");
+    expect(denials).toEqual([
+      { table: "posts", id: hidden, operation: "delete", rule: "read" },
+    ]);
+  });
+});
+
+describe("search scope", () => {
+  const setup = async () => {
+    const raw = fakeDb();
+    for (const [org, body] of [
+      ["a", "hello world"],
+      ["b", "hello there"],
+      ["a", "hello again"],
+      ["a", "goodbye"],
+    ]) {
+      await raw.insert("messages", {
+        org,
+        body,
+        hidden: body === "hello again",
+      });
+    }
+    const search = (db: GenericDatabaseReader<any>) =>
+      db
+        .query("messages")
+        .withSearchIndex("body", (q) => q.search("body", "hello"));
+    return { raw, search };
+  };
+  const bodies = (docs: any[]) => docs.map((doc) => doc.body);
+
+  test("filters searches to the ctx's tenant", async () => {
+    const { raw, search } = await setup();
+    const db = wrapDatabaseReader({ org: "a" }, raw, {
+      messages: {
+        read: async (_ctx, doc) => !doc.hidden,
+        search: { tenantField: "org", tenantId: (ctx) => ctx.org },
+      },
+    });
+    expect(bodies(await search(db).collect())).toEqual(["hello world"]);
+    const page = await paginateWithRLS(search(db), {
+      numItems: 5,
+      cursor: null,
+    });
+    expect(bodies(page.page)).toEqual(["hello world"]);
+    // Only this tenant's documents were read.
+    expect(page.scanned).toBe(2);
+  });
+
+  test("doesn't scope searches without the option", async () => {
+    const { raw, search } = await setup();
+    const db = wrapDatabaseReader({}, raw, {
+      messages: { read: async (_ctx, doc) => !doc.hidden },
+    });
+    expect(bodies(await search(db).collect())).toEqual([
+      "hello world",
+      "hello there",
+    ]);
+  });
+});
+
+describe("BasicRowLevelSecurity", () => {
+  // Builders that return the definition, so tests can call its handler.
+  const queryBuilder = ((fn: any) => fn) as unknown as typeof query;
+  const mutationBuilder = ((fn: any) => fn) as unknown as typeof mutation;
+  const rules: Rules<any, any> = {
+    notes: {
+      read: async (ctx, doc) => doc.owner === ctx.user,
+      insert: async (ctx, doc) => doc.owner === ctx.user,
+    },
+  };
+
+  test("wraps ctx.db with the rules, passing them the function's ctx", async () => {
+    const raw = fakeDb();
+    await raw.insert("notes", { owner: "alice" });
+    await raw.insert("notes", { owner: "bob" });
+    const builders = BasicRowLevelSecurity(
+      queryBuilder,
+      mutationBuilder,
+      queryBuilder as any,
+      mutationBuilder as any,
+      rules
+    );
+    const list: any = builders.queryWithRLS({
+      args: {},
+      handler: async (ctx) => await ctx.db.query("notes").collect(),
+    });
+    const internalList: any = builders.internalQueryWithRLS({
+      args: {},
+      handler: async (ctx) => await ctx.db.query("notes").collect(),
+    });
+    const add: any = builders.mutationWithRLS({
+      args: { owner: v.string() },
+      handler: async (ctx, args) => await ctx.db.insert("notes", args),
+    });
+    const ctx = { db: raw, user: "alice" };
+    expect(await list.handler(ctx, {})).toHaveLength(1);
+    expect(await internalList.handler(ctx, {})).toHaveLength(1);
+    await add.handler(ctx, { owner: "alice" });
+    await expect(add.handler(ctx, { owner: "bob" })).rejects.toThrow(
+      "rule: insert"
+    );
+    expect(raw.tables.notes).toHaveLength(3);
+  });
+
+  test("passes options to the wrapped db", async () => {
+    const raw = fakeDb();
+    await raw.insert("others", {});
+    const { queryWithRLS } = BasicRowLevelSecurity(
+      queryBuilder,
+      mutationBuilder,
+      queryBuilder as any,
+      mutationBuilder as any,
+      rules,
+      { defaultPolicy: "deny" }
+    );
+    const list: any = queryWithRLS({
+      args: {},
+      handler: async (ctx) => await ctx.db.query("others").collect(),
+    });
+    await expect(list.handler({ db: raw }, {})).rejects.toThrow(
+      AccessDeniedError
+    );
+  });
+});
+
+describe("RowLevelSecurity", () => {
+  test("wraps handlers' ctx.db", async () => {
+    const raw = fakeDb();
+    await raw.insert("notes", { owner: "alice" });
+    await raw.insert("notes", { owner: "bob" });
+    const { withQueryRLS, withMutationRLS } = RowLevelSecurity<any, any>({
+      notes: { read: async (ctx, doc) => doc.owner === ctx.user },
+    });
+    const ctx = { db: raw, user: "alice" } as any;
+    const list = withQueryRLS(
+      async (ctx, args: { extra: number }) =>
+        (await ctx.db.query("notes").collect()).length + args.extra
+    );
+    expect(await list(ctx, { extra: 10 })).toBe(11);
+    const remove = withMutationRLS(async (ctx, { id }: { id: any }) => {
+      await ctx.db.delete(id);
+    });
+    await expect(remove(ctx, { id: raw.tables.notes[1]._id })).rejects.toThrow(
+      "does not exist"
+    );
+  });
+});
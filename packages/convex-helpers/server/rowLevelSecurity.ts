@@ -20,29 +20,151 @@ import {
   PaginationResult,
   Query,
   GenericQueryCtx,
+  MutationBuilder,
+  QueryBuilder,
   QueryInitializer,
   SearchFilter,
   SearchFilterBuilder,
+  SearchFilterFinalizer,
   SearchIndexes,
   TableNamesInDataModel,
   WithoutSystemFields,
 } from "convex/server";
-import { GenericId } from "convex/values";
+import { GenericId, Value, convexToJson } from "convex/values";
+import { customCtx, customMutation, customQuery } from "./customFunctions";
 
 type Rule<Ctx, D> = (ctx: Ctx, doc: D) => Promise<boolean>;
 
+/**
+ * A rule for a single field, given the ctx, the document, and the field name.
+ * For inserts, the document is the value being inserted.
+ */
+export type FieldRule<Ctx, D> = (
+  ctx: Ctx,
+  doc: D,
+  field: keyof D & string
+) => Promise<boolean>;
+
 export type Rules<Ctx, DataModel extends GenericDataModel> = {
   [T in TableNamesInDataModel<DataModel>]?: {
     read?: Rule<Ctx, DocumentByName<DataModel, T>>;
+    /**
+     * Checks read access to many documents at once, returning whether each is
+     * allowed, in order. Use it instead of "read" to share lookups between
+     * documents, e.g. fetching each team once for a page of posts.
+     * If set, "read" isn't used.
+     */
+    readMany?: (
+      ctx: Ctx,
+      docs: DocumentByName<DataModel, T>[]
+    ) => Promise<boolean[]>;
     modify?: Rule<Ctx, DocumentByName<DataModel, T>>;
     insert?: Rule<Ctx, WithoutSystemFields<DocumentByName<DataModel, T>>>;
+    /**
+     * Rules for individual fields, applied to documents that pass the
+     * document-level rules.
+     * - "read" says whether the field is visible. If not, it's removed from
+     *   documents returned by `get`, queries, and pagination.
+     * - "write" says whether the field can be set. If not, inserts, patches,
+     *   and replaces that set or change it throw an error.
+     */
+    fields?: {
+      [F in keyof DocumentByName<DataModel, T> & string]?: {
+        read?: FieldRule<Ctx, DocumentByName<DataModel, T>>;
+        write?: FieldRule<Ctx, DocumentByName<DataModel, T>>;
+      };
+    };
+    /**
+     * Scope search queries to the ctx's tenant, e.g. their organization, by
+     * filtering on the field holding each document's tenant. Otherwise other
+     * tenants' documents can use up the search results before they're
+     * filtered out, leaving few or none.
+     * The field must be one of the search index's `filterFields`. Results are
+     * still checked against the read rules.
+     */
+    search?: {
+      tenantField: keyof DocumentByName<DataModel, T> & string;
+      tenantId: (ctx: Ctx) => Value;
+    };
   };
 };
 
+/**
+ * Builders for queries and mutations whose `ctx.db` applies row-level
+ * security rules, like `query`, `mutation`, `internalQuery`, and
+ * `internalMutation`.
+ *
+ * Rules get the function's ctx. To use values looked up at the start of the
+ * function in your rules, e.g. the user, use `wrapDatabaseReader`/`Writer` in
+ * a custom function instead.
+ *
+ * e.g.
+ * ```js
+ * // convex/lib/rls.ts
+ * import { query, mutation, internalQuery, internalMutation } from "../_generated/server";
+ *
+ * export const { queryWithRLS, mutationWithRLS } = BasicRowLevelSecurity(
+ *   query,
+ *   mutation,
+ *   internalQuery,
+ *   internalMutation,
+ *   {
+ *     cookies: {
+ *       read: async (ctx, cookie) => !cookie.eaten,
+ *     },
+ *   }
+ * );
+ * ```
+ * @param query The `query` builder from `_generated/server`.
+ * @param mutation The `mutation` builder.
+ * @param internalQuery The `internalQuery` builder.
+ * @param internalMutation The `internalMutation` builder.
+ * @param rules The rules for each table.
+ * @param options Options for the wrapped database, e.g. `defaultPolicy`.
+ * @returns Builders `queryWithRLS`, `mutationWithRLS`, `internalQueryWithRLS`,
+ *   and `internalMutationWithRLS`.
+ */
+export function BasicRowLevelSecurity<DataModel extends GenericDataModel>(
+  query: QueryBuilder<DataModel, "public">,
+  mutation: MutationBuilder<DataModel, "public">,
+  internalQuery: QueryBuilder<DataModel, "internal">,
+  internalMutation: MutationBuilder<DataModel, "internal">,
+  rules: Rules<GenericQueryCtx<DataModel>, DataModel>,
+  options?: RLSOptions
+) {
+  const { readerMod, writerMod } = rlsMods(rules, options);
+  return {
+    queryWithRLS: customQuery(query, readerMod),
+    mutationWithRLS: customMutation(mutation, writerMod),
+    internalQueryWithRLS: customQuery(internalQuery, readerMod),
+    internalMutationWithRLS: customMutation(internalMutation, writerMod),
+  };
+}
+
+// Mods replacing `ctx.db` with one applying the rules, passing the ctx to them.
+function rlsMods<RuleCtx, DataModel extends GenericDataModel>(
+  rules: Rules<RuleCtx, DataModel>,
+  options?: RLSOptions
+) {
+  return {
+    readerMod: customCtx(
+      (ctx: RuleCtx & { db: GenericDatabaseReader<DataModel> }) => ({
+        db: wrapDatabaseReader(ctx, ctx.db, rules, options),
+      })
+    ),
+    writerMod: customCtx(
+      (ctx: RuleCtx & { db: GenericDatabaseWriter<DataModel> }) => ({
+        db: wrapDatabaseWriter(ctx, ctx.db, rules, options),
+      })
+    ),
+  };
+}
+
 /**
  * Apply row level security (RLS) to queries and mutations with the returned
  * middleware functions.
- * @deprecated Use `wrapDatabaseReader`/`Writer` with `customFunction` instead.
+ * @deprecated Use `BasicRowLevelSecurity`, or `wrapDatabaseReader`/`Writer`
+ *   with `customFunction` instead.
  *
  * Example:
  * ```
@@ -98,30 +220,30 @@ export type Rules<Ctx, DataModel extends GenericDataModel> = {
 export const RowLevelSecurity = <RuleCtx, DataModel extends GenericDataModel>(
   rules: Rules<RuleCtx, DataModel>
 ) => {
-  const withMutationRLS = <
+  const { readerMod, writerMod } = rlsMods(rules);
+  const withMod =
+    (mod: typeof readerMod | typeof writerMod) =>
+    <Ctx, Args extends ArgsArray, Output>(
+      f: Handler<Ctx, Args, Output>
+    ): Handler<Ctx, Args, Output> =>
+      (async (ctx: any, ...args: any[]) => {
+        const { ctx: rlsCtx } = await mod.input(ctx, {});
+        return (f as any)({ ...ctx, ...rlsCtx }, ...args);
+      }) as unknown as Handler<Ctx, Args, Output>;
+  const withMutationRLS: <
     Ctx extends GenericMutationCtx<DataModel>,
     Args extends ArgsArray,
     Output
   >(
     f: Handler<Ctx, Args, Output>
-  ): Handler<Ctx, Args, Output> => {
-    return ((ctx: any, ...args: any[]) => {
-      const wrappedDb = new WrapWriter(ctx, ctx.db, rules);
-      return (f as any)({ ...ctx, db: wrappedDb }, ...args);
-    }) as Handler<Ctx, Args, Output>;
-  };
-  const withQueryRLS = <
+  ) => Handler<Ctx, Args, Output> = withMod(writerMod);
+  const withQueryRLS: <
     Ctx extends GenericQueryCtx<DataModel>,
     Args extends ArgsArray,
     Output
   >(
     f: Handler<Ctx, Args, Output>
-  ): Handler<Ctx, Args, Output> => {
-    return ((ctx: any, ...args: any[]) => {
-      const wrappedDb = new WrapReader(ctx, ctx.db, rules);
-      return (f as any)({ ...ctx, db: wrappedDb }, ...args);
-    }) as Handler<Ctx, Args, Output>;
-  };
+  ) => Handler<Ctx, Args, Output> = withMod(readerMod);
   return {
     withMutationRLS,
     withQueryRLS,
@@ -129,53 +251,306 @@ export const RowLevelSecurity = <RuleCtx, DataModel extends GenericDataModel>(
 };
 
 /**
- * If you just want to read from the DB, you can copy this.
- * Later, you can use `generateQueryWithMiddleware` along
- * with a custom function using wrapQueryDB with rules that
- * depend on values generated once at the start of the function.
- * E.g. Looking up a user to use for your rules:
- * //TODO: Add example
-export function BasicRowLevelSecurity(
-  rules: Rules<GenericQueryCtx<DataModel>, DataModel>
-) {
-  return {
-    queryWithRLS: customQuery(
-      query,
-      customCtx((ctx) => ({ db: wrapDatabaseReader(ctx, ctx.db, rules) }))
-    ),
+ * Options for `wrapDatabaseReader` and `wrapDatabaseWriter`.
+ */
+export type RLSOptions = {
+  /**
+   * Remember whether each document can be read for the rest of the request,
+   * instead of checking the rules every time it's read. Writes through the
+   * wrapped db check again, but writes made elsewhere aren't noticed.
+   * Checks where a rule throws aren't remembered, and run again next time.
+   */
+  memoize?: boolean;
+  /**
+   * Whether tables without rules can be read and written. Defaults to
+   * "allow". With "deny", reading them returns nothing, querying them
+   * throws, and writing to them throws.
+   * Tables with rules are unaffected: operations they have no rule for are
+   * still allowed.
+   */
+  defaultPolicy?: "allow" | "deny";
+  /**
+   * Log a warning the first time each table without rules is accessed, e.g.
+   * while developing, to catch tables you forgot to write rules for.
+   * Documents read or written by ID are only known to be in some table
+   * without rules, so they're listed by ID.
+   */
+  warnMissingRules?: boolean;
+  /**
+   * Called whenever a rule denies access, e.g. to log or count denials.
+   * Includes documents skipped by queries and fields removed from documents,
+   * as well as denied writes, which also throw.
+   */
+  onDenied?: (denial: AccessCheck) => void;
+  /**
+   * Debug mode: record every rule evaluation in this array, in order.
+   * With `memoize`, remembered results aren't evaluated or recorded again.
+   */
+  evaluations?: RuleEvaluation[];
+};
 
-    mutationWithRLS: customMutation(
-      mutation,
-      customCtx((ctx) => ({ db: wrapDatabaseWriter(ctx, ctx.db, rules) }))
-    ),
+/**
+ * The database operations rules are checked for.
+ */
+export type RLSOperation = "read" | "insert" | "patch" | "replace" | "delete";
 
-    internalQueryWithRLS: customQuery(
-      internalQuery,
-      customCtx((ctx) => ({ db: wrapDatabaseReader(ctx, ctx.db, rules) }))
-    ),
+/**
+ * A rule being checked for an operation.
+ */
+export type AccessCheck = {
+  /**
+   * The table, or null if it's a document in a table without rules.
+   */
+  table: string | null;
+  /**
+   * The document, unless it's being inserted or a table is being queried.
+   */
+  id?: GenericId<any>;
+  operation: RLSOperation;
+  /**
+   * The rule, e.g. "read", "modify", "insert", "readMany",
+   * "fields.email.write", or "defaultPolicy" for tables without rules.
+   */
+  rule: string;
+};
 
-    internalMutationWithRLS: customMutation(
-      internalMutation,
-      customCtx((ctx) => ({ db: wrapDatabaseWriter(ctx, ctx.db, rules) }))
-    ),
-  };
+/**
+ * A rule evaluation, recorded in debug mode.
+ */
+export type RuleEvaluation = AccessCheck & { allowed: boolean };
+
+/**
+ * Thrown when a rule denies a write, or a query of a table without rules.
+ * Writes to documents the rules don't allow reading throw a
+ * `DocumentNotFoundError` instead, so they don't reveal that it exists.
+ * Translate it to a `ConvexError` for clients with `mapErrors`, e.g.
+ * `mapError(AccessDeniedError, { code: "FORBIDDEN" })`.
+ */
+export class AccessDeniedError extends Error {
+  readonly table: string | null;
+  readonly id?: GenericId<any>;
+  readonly operation: RLSOperation;
+  readonly rule: string;
+
+  constructor({ table, id, operation, rule }: AccessCheck) {
+    const target = [table, id && `document ${id}`].filter(Boolean).join(" ");
+    super(`${operation} access not allowed on ${target} (rule: ${rule})`);
+    this.table = table;
+    this.id = id;
+    this.operation = operation;
+    this.rule = rule;
+  }
 }
+
+/**
+ * Thrown when writing to a document that doesn't exist, or that the rules
+ * don't allow reading. Both throw the same error, so writes can't be used to
+ * find out which IDs exist, but `onDenied` is still told about read denials.
+ * Translate it with `mapError(DocumentNotFoundError, { code: "NOT_FOUND" })`.
  */
+export class DocumentNotFoundError extends Error {
+  readonly id: GenericId<any>;
+  readonly operation: RLSOperation;
+
+  constructor({
+    id,
+    operation,
+  }: {
+    id: GenericId<any>;
+    operation: RLSOperation;
+  }) {
+    super(`document ${id} does not exist`);
+    this.id = id;
+    this.operation = operation;
+  }
+}
 
 export function wrapDatabaseReader<Ctx, DataModel extends GenericDataModel>(
   ctx: Ctx,
   db: GenericDatabaseReader<DataModel>,
-  rules: Rules<Ctx, DataModel>
+  rules: Rules<Ctx, DataModel>,
+  options?: RLSOptions
 ): GenericDatabaseReader<DataModel> {
-  return new WrapReader(ctx, db, rules);
+  return new WrapReader(ctx, db, rules, options);
 }
 
 export function wrapDatabaseWriter<Ctx, DataModel extends GenericDataModel>(
   ctx: Ctx,
   db: GenericDatabaseWriter<DataModel>,
-  rules: Rules<Ctx, DataModel>
+  rules: Rules<Ctx, DataModel>,
+  options?: RLSOptions
 ): GenericDatabaseWriter<DataModel> {
-  return new WrapWriter(ctx, db, rules);
+  return new WrapWriter(ctx, db, rules, options);
+}
+
+/**
+ * Memoized lookups for rules to use, so checking many documents doesn't
+ * repeat the same reads.
+ */
+export type RuleLoader<DataModel extends GenericDataModel> = {
+  /**
+   * Get a document by ID, reading it at most once.
+   */
+  get<TableName extends TableNamesInDataModel<DataModel>>(
+    id: GenericId<TableName>
+  ): Promise<DocumentByName<DataModel, TableName> | null>;
+  /**
+   * Run `fn` the first time `key` is loaded, and return its result after.
+   * If it rejects, it's run again the next time `key` is loaded.
+   */
+  load<V>(key: string, fn: () => Promise<V>): Promise<V>;
+};
+
+/**
+ * Make a loader to pass to your rules in their ctx. Make one per request, as
+ * it never forgets what it loaded, even if the request changes it later.
+ *
+ * e.g.
+ * ```js
+ * const loader = ruleLoader(ctx.db);
+ * const db = wrapDatabaseReader({ user, loader }, ctx.db, {
+ *   posts: {
+ *     read: async ({ user, loader }, post) => {
+ *       const team = await loader.get(post.teamId);
+ *       return !!team?.members.includes(user._id);
+ *     },
+ *   },
+ * });
+ * ```
+ * @param db The database to load from, e.g. `ctx.db`.
+ * @returns A loader that memoizes `get` and `load`.
+ */
+export function ruleLoader<DataModel extends GenericDataModel>(
+  db: GenericDatabaseReader<DataModel>
+): RuleLoader<DataModel> {
+  const loaded = new Map<string, Promise<any>>();
+  const load = <V>(key: string, fn: () => Promise<V>): Promise<V> => {
+    if (!loaded.has(key)) {
+      const value = fn();
+      loaded.set(key, value);
+      value.catch(() => {
+        if (loaded.get(key) === value) {
+          loaded.delete(key);
+        }
+      });
+    }
+    return loaded.get(key)!;
+  };
+  return {
+    get: (id) => load(`get:${id}`, () => db.get(id)),
+    load,
+  };
+}
+
+/**
+ * Options for `paginateWithRLS`.
+ */
+export type RLSPaginationOptions = {
+  /**
+   * The most documents to read per call, whether or not the rules allow
+   * them. Defaults to 5 times `numItems`.
+   */
+  maxScan?: number;
+};
+
+/**
+ * A page from `paginateWithRLS`.
+ * - `scanned`: How many documents the rules were checked against.
+ * - `returned`: How many of them the rules allowed, i.e. `page.length`.
+ */
+export type RLSPaginationResult<T> = PaginationResult<T> & {
+  scanned: number;
+  returned: number;
+};
+
+/**
+ * Paginate a query from a database wrapped with row-level security, filling
+ * the page with up to `numItems` documents the rules allow.
+ *
+ * `.paginate()` on a wrapped database filters each page after reading it, so
+ * pages can come back short or empty before the end. This reads a batch of
+ * up to `maxScan` documents instead, and returns as soon as it has `numItems`
+ * allowed documents, with a cursor to continue right after the last one read.
+ * A page is only short at the end of a batch, or at the end of the query.
+ *
+ * A page ending partway through a batch is continued by reading the batch
+ * again and resuming after the last document read, so documents inserted or
+ * deleted before it don't shift the page. If that document itself has since
+ * been deleted or had its indexed fields changed, the next page can skip or
+ * repeat documents.
+ *
+ * Its cursors can only be passed back to `paginateWithRLS`, and it throws on
+ * cursors from `.paginate()`.
+ * Queries on databases that aren't wrapped are paginated as usual.
+ *
+ * e.g.
+ * ```js
+ * const db = wrapDatabaseReader(ctx, ctx.db, rules);
+ * const query = db.query("posts").withIndex("by_author", (q) => q.eq("author", author));
+ * return await paginateWithRLS(query, args.paginationOpts, { maxScan: 200 });
+ * ```
+ * @param query The query to paginate, from `db.query(...)`.
+ * @param paginationOpts From the client, as with any paginated query.
+ * @param options The most documents to read per call.
+ * @returns The page, along with how many documents were scanned for it.
+ */
+export async function paginateWithRLS<T extends GenericTableInfo>(
+  query: OrderedQuery<T>,
+  paginationOpts: PaginationOptions,
+  options?: RLSPaginationOptions
+): Promise<RLSPaginationResult<DocumentByInfo<T>>> {
+  if (query instanceof WrapQueryInitializer) {
+    query = query.fullTableScan();
+  }
+  if (query instanceof WrapQuery) {
+    return await query.paginateFilled(paginationOpts, options);
+  }
+  const result = await query.paginate(paginationOpts);
+  return {
+    ...result,
+    scanned: result.page.length,
+    returned: result.page.length,
+  };
+}
+
+// Cursors from paginateWithRLS point into a batch: the Convex cursor for the
+// start of the batch, how many documents of it have been read, the last one
+// read, and the batch's size. The batch is read again in full by the next
+// call, as Convex only allows one paginated query per function.
+// They're JSON tagged with `paginateWithRLS`, so other cursors are rejected.
+type FilledCursor = {
+  paginateWithRLS: {
+    base: string | null;
+    offset: number;
+    lastRead?: string;
+    batchSize: number;
+  };
+};
+
+function parseFilledCursor(
+  cursor: string | null,
+  batchSize: number
+): FilledCursor["paginateWithRLS"] {
+  if (cursor === null) {
+    return { base: null, offset: 0, batchSize };
+  }
+  let parsed: Partial<FilledCursor> | undefined;
+  try {
+    parsed = JSON.parse(cursor);
+  } catch {
+    // Not one of ours.
+  }
+  if (!parsed?.paginateWithRLS) {
+    throw new Error(
+      "paginateWithRLS needs a cursor it returned, or null to start."
+    );
+  }
+  return parsed.paginateWithRLS;
+}
+
+function filledCursor(cursor: FilledCursor["paginateWithRLS"]): string {
+  const tagged: FilledCursor = { paginateWithRLS: cursor };
+  return JSON.stringify(tagged);
 }
 
 type ArgsArray = [] | [FunctionArgs<any>];
@@ -184,10 +559,22 @@ type Handler<Ctx, Args extends ArgsArray, Output> = (
   ...args: Args
 ) => Output;
 
-type AuthPredicate<T extends GenericTableInfo> = (
+export type AuthPredicate<T extends GenericTableInfo> = (
   doc: DocumentByInfo<T>
 ) => Promise<boolean>;
 
+export type BatchAuthPredicate<T extends GenericTableInfo> = (
+  docs: DocumentByInfo<T>[]
+) => Promise<boolean[]>;
+
+// Narrows a search, e.g. to a tenant.
+type SearchScope = (filter: SearchFilter) => SearchFilter;
+
+// Transforms a visible document before it's returned, e.g. removing fields.
+type Redactor<T extends GenericTableInfo> = (
+  doc: DocumentByInfo<T>
+) => Promise<DocumentByInfo<T>>;
+
 async function asyncFilter<T>(
   arr: T[],
   predicate: (d: T) => Promise<boolean>
@@ -196,40 +583,129 @@ async function asyncFilter<T>(
   return arr.filter((_v, index) => results[index]);
 }
 
-class WrapQuery<T extends GenericTableInfo> implements Query<T> {
+/**
+ * A query that skips documents that don't match a predicate.
+ * Also used by other database wrappers, e.g. to hide soft-deleted documents.
+ */
+export class WrapQuery<T extends GenericTableInfo> implements Query<T> {
   q: Query<T>;
   p: AuthPredicate<T>;
+  r?: Redactor<T>;
+  pm?: BatchAuthPredicate<T>;
   iterator?: AsyncIterator<any>;
-  constructor(q: Query<T> | OrderedQuery<T>, p: AuthPredicate<T>) {
+  constructor(
+    q: Query<T> | OrderedQuery<T>,
+    p: AuthPredicate<T>,
+    r?: Redactor<T>,
+    pm?: BatchAuthPredicate<T>
+  ) {
     this.q = q as Query<T>;
     this.p = p;
+    this.r = r;
+    this.pm = pm;
   }
   filter(predicate: (q: FilterBuilder<T>) => Expression<boolean>): this {
-    return new WrapQuery(this.q.filter(predicate), this.p) as this;
+    return new WrapQuery(
+      this.q.filter(predicate),
+      this.p,
+      this.r,
+      this.pm
+    ) as this;
   }
   order(order: "asc" | "desc"): WrapQuery<T> {
-    return new WrapQuery(this.q.order(order), this.p);
+    return new WrapQuery(this.q.order(order), this.p, this.r, this.pm);
+  }
+  async filterMany(docs: DocumentByInfo<T>[]): Promise<DocumentByInfo<T>[]> {
+    if (!this.pm) {
+      return await asyncFilter(docs, this.p);
+    }
+    const allowed = await this.pm(docs);
+    return docs.filter((_doc, index) => allowed[index]);
+  }
+  async redact(docs: DocumentByInfo<T>[]): Promise<DocumentByInfo<T>[]> {
+    return this.r ? await Promise.all(docs.map(this.r)) : docs;
   }
   async paginate(
     paginationOpts: PaginationOptions
   ): Promise<PaginationResult<DocumentByInfo<T>>> {
     const result = await this.q.paginate(paginationOpts);
-    result.page = await asyncFilter(result.page, this.p);
+    result.page = await this.redact(await this.filterMany(result.page));
     return result;
   }
+  async paginateFilled(
+    paginationOpts: PaginationOptions,
+    options?: RLSPaginationOptions
+  ): Promise<RLSPaginationResult<DocumentByInfo<T>>> {
+    const { numItems } = paginationOpts;
+    const { base, offset, lastRead, batchSize } = parseFilledCursor(
+      paginationOpts.cursor,
+      options?.maxScan ?? numItems * 5
+    );
+    const result = await this.q.paginate({
+      ...paginationOpts,
+      cursor: base,
+      numItems: batchSize,
+    });
+    // Resume after the last document read, wherever it is in the batch now.
+    const lastIndex = result.page.findIndex((doc) => doc._id === lastRead);
+    const start = lastIndex === -1 ? offset : lastIndex + 1;
+    const unread = result.page.slice(start);
+    const page: DocumentByInfo<T>[] = [];
+    let scanned = 0;
+    while (page.length < numItems && scanned < unread.length) {
+      // Check only as many as could still fit on the page.
+      const batch = unread.slice(scanned, scanned + numItems - page.length);
+      page.push(...(await this.filterMany(batch)));
+      scanned += batch.length;
+    }
+    const finishedBatch = scanned === unread.length;
+    return {
+      page: await this.redact(page),
+      isDone: finishedBatch && result.isDone,
+      continueCursor: filledCursor(
+        finishedBatch
+          ? { base: result.continueCursor, offset: 0, batchSize }
+          : {
+              base,
+              offset: start + scanned,
+              // Nothing was scanned if the page had no room, e.g. for
+              // `numItems: 0`, so this continues from the same place.
+              lastRead:
+                scanned > 0 ? (unread[scanned - 1]._id as string) : lastRead,
+              batchSize,
+            }
+      ),
+      scanned,
+      returned: page.length,
+    };
+  }
   async collect(): Promise<DocumentByInfo<T>[]> {
     const results = await this.q.collect();
-    return await asyncFilter(results, this.p);
+    return await this.redact(await this.filterMany(results));
   }
   async take(n: number): Promise<DocumentByInfo<T>[]> {
     const results: DocumentByInfo<T>[] = [];
-    for await (const result of this) {
-      results.push(result);
-      if (results.length >= n) {
-        break;
+    const iterator = this.q[Symbol.asyncIterator]();
+    let done = false;
+    try {
+      // Read only as many as could still be taken, then check them together.
+      while (!done && results.length < n) {
+        const batch: DocumentByInfo<T>[] = [];
+        while (!done && batch.length < n - results.length) {
+          const next = await iterator.next();
+          done = !!next.done;
+          if (!done) {
+            batch.push(next.value);
+          }
+        }
+        results.push(...(await this.filterMany(batch)));
+      }
+    } finally {
+      if (!done) {
+        await iterator.return?.();
       }
     }
-    return results;
+    return await this.redact(results);
   }
   async first(): Promise<DocumentByInfo<T> | null> {
     for await (const result of this) {
@@ -256,7 +732,7 @@ class WrapQuery<T extends GenericTableInfo> implements Query<T> {
     for (;;) {
       const { value, done } = await this.iterator!.next();
       if (value && (await this.p(value))) {
-        return { value, done };
+        return { value: this.r ? await this.r(value) : value, done };
       }
       if (done) {
         return { value: null, done: true };
@@ -268,17 +744,32 @@ class WrapQuery<T extends GenericTableInfo> implements Query<T> {
   }
 }
 
-class WrapQueryInitializer<T extends GenericTableInfo>
+/**
+ * Wraps `db.query(table)` so every query built from it uses `WrapQuery`.
+ */
+export class WrapQueryInitializer<T extends GenericTableInfo>
   implements QueryInitializer<T>
 {
   q: QueryInitializer<T>;
   p: AuthPredicate<T>;
-  constructor(q: QueryInitializer<T>, p: AuthPredicate<T>) {
+  r?: Redactor<T>;
+  pm?: BatchAuthPredicate<T>;
+  s?: SearchScope;
+  constructor(
+    q: QueryInitializer<T>,
+    p: AuthPredicate<T>,
+    r?: Redactor<T>,
+    pm?: BatchAuthPredicate<T>,
+    s?: SearchScope
+  ) {
     this.q = q;
     this.p = p;
+    this.r = r;
+    this.pm = pm;
+    this.s = s;
   }
   fullTableScan(): Query<T> {
-    return new WrapQuery(this.q.fullTableScan(), this.p);
+    return new WrapQuery(this.q.fullTableScan(), this.p, this.r, this.pm);
   }
   withIndex<IndexName extends keyof Indexes<T>>(
     indexName: IndexName,
@@ -288,7 +779,12 @@ class WrapQueryInitializer<T extends GenericTableInfo>
         ) => IndexRange)
       | undefined
   ): Query<T> {
-    return new WrapQuery(this.q.withIndex(indexName, indexRange), this.p);
+    return new WrapQuery(
+      this.q.withIndex(indexName, indexRange),
+      this.p,
+      this.r,
+      this.pm
+    );
   }
   withSearchIndex<IndexName extends keyof SearchIndexes<T>>(
     indexName: IndexName,
@@ -296,9 +792,15 @@ class WrapQueryInitializer<T extends GenericTableInfo>
       q: SearchFilterBuilder<DocumentByInfo<T>, NamedSearchIndex<T, IndexName>>
     ) => SearchFilter
   ): OrderedQuery<T> {
+    const scope = this.s;
     return new WrapQuery(
-      this.q.withSearchIndex(indexName, searchFilter),
-      this.p
+      this.q.withSearchIndex(
+        indexName,
+        scope ? (q) => scope(searchFilter(q)) : searchFilter
+      ),
+      this.p,
+      this.r,
+      this.pm
     );
   }
   filter(predicate: (q: FilterBuilder<T>) => Expression<boolean>): this {
@@ -336,16 +838,85 @@ class WrapReader<Ctx, DataModel extends GenericDataModel>
   db: GenericDatabaseReader<DataModel>;
   system: GenericDatabaseReader<DataModel>["system"];
   rules: Rules<Ctx, DataModel>;
+  // Whether each document can be read, by ID, if memoizing.
+  readable?: Map<string, Promise<boolean>>;
+  defaultPolicy: "allow" | "deny";
+  // Tables we've warned about, if warning about missing rules.
+  warned?: Set<string>;
+  onDenied?: (denial: AccessCheck) => void;
+  evaluations?: RuleEvaluation[];
 
   constructor(
     ctx: Ctx,
     db: GenericDatabaseReader<DataModel>,
-    rules: Rules<Ctx, DataModel>
+    rules: Rules<Ctx, DataModel>,
+    options?: RLSOptions
   ) {
     this.ctx = ctx;
     this.db = db;
     this.system = db.system;
     this.rules = rules;
+    if (options?.memoize) {
+      this.readable = new Map();
+    }
+    this.defaultPolicy = options?.defaultPolicy ?? "allow";
+    if (options?.warnMissingRules) {
+      this.warned = new Set();
+    }
+    this.onDenied = options?.onDenied;
+    this.evaluations = options?.evaluations;
+  }
+
+  /**
+   * Record a rule's result in debug mode, and report it if it denied access.
+   */
+  checked(check: AccessCheck, allowed: boolean): boolean {
+    this.evaluations?.push({ ...check, allowed });
+    if (!allowed) {
+      this.onDenied?.(check);
+    }
+    return allowed;
+  }
+
+  /**
+   * Check a rule, recording and reporting the result.
+   */
+  async check(
+    check: AccessCheck,
+    rule: () => Promise<boolean>
+  ): Promise<boolean> {
+    return this.checked(check, await rule());
+  }
+
+  hasRules(tableName: string): boolean {
+    return this.rules[tableName] !== undefined;
+  }
+
+  /**
+   * Whether a table without rules can be accessed, per the default policy.
+   * @param table The table's name, or null if only the document's ID is known.
+   */
+  allowedWithoutRules(
+    table: string | null,
+    operation: RLSOperation,
+    id?: GenericId<any>
+  ): boolean {
+    const allowed = this.defaultPolicy === "allow";
+    const description = table
+      ? `table "${table}"`
+      : `the table of document ${id}`;
+    if (this.warned && !this.warned.has(description)) {
+      this.warned.add(description);
+      console.warn(
+        `No row-level security rules for ${description}. ` +
+          (allowed ? "Allowing" : "Denying") +
+          " access by default."
+      );
+    }
+    return this.checked(
+      { table, id, operation, rule: "defaultPolicy" },
+      allowed
+    );
   }
 
   normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
@@ -366,23 +937,143 @@ class WrapReader<Ctx, DataModel extends GenericDataModel>
     return null;
   }
 
+  // The rule checking read access to a table.
+  readRule(tableName: string): "read" | "readMany" | null {
+    const rules = this.rules[tableName];
+    return rules?.readMany ? "readMany" : rules?.read ? "read" : null;
+  }
+
   async predicate<T extends GenericTableInfo>(
     tableName: string,
-    doc: DocumentByInfo<T>
+    doc: DocumentByInfo<T>,
+    operation: RLSOperation = "read"
   ): Promise<boolean> {
-    if (!this.rules[tableName]?.read) {
-      return true;
+    const [allowed] = await this.predicateMany(tableName, [doc], operation);
+    return allowed;
+  }
+
+  async predicateMany<T extends GenericTableInfo>(
+    tableName: string,
+    docs: DocumentByInfo<T>[],
+    operation: RLSOperation = "read"
+  ): Promise<boolean[]> {
+    const rule = this.readRule(tableName);
+    if (!rule) {
+      return docs.map(() => true);
     }
-    return await this.rules[tableName]!.read!(this.ctx, doc);
+    const { read, readMany } = this.rules[tableName]!;
+    const evaluate = async (docs: DocumentByInfo<T>[]) => {
+      if (!readMany) {
+        return await Promise.all(docs.map((doc) => read!(this.ctx, doc)));
+      }
+      const allowed = await readMany(this.ctx, docs);
+      if (allowed.length !== docs.length) {
+        throw new Error(
+          `readMany for ${tableName} returned ${allowed.length} results ` +
+            `for ${docs.length} documents`
+        );
+      }
+      return allowed;
+    };
+    const report = (results: boolean[]) =>
+      results.map((allowed, i) =>
+        this.checked(
+          {
+            table: tableName,
+            id: docs[i]._id as GenericId<any>,
+            operation,
+            rule,
+          },
+          allowed
+        )
+      );
+    if (!this.readable) {
+      return report(await evaluate(docs));
+    }
+    const ids = docs.map((doc) => doc._id as string);
+    const unchecked = docs.filter((_doc, i) => !this.readable!.has(ids[i]));
+    if (unchecked.length > 0) {
+      const checked = evaluate(unchecked).then((results) => {
+        this.evaluations?.push(
+          ...unchecked.map((doc, i) => ({
+            table: tableName,
+            id: doc._id as GenericId<any>,
+            operation,
+            rule,
+            allowed: results[i],
+          }))
+        );
+        return results;
+      });
+      unchecked.forEach((doc, index) => {
+        const id = doc._id as string;
+        const allowed = checked.then((allowed) => allowed[index]);
+        this.readable!.set(id, allowed);
+        // Forget failed checks, so the rules run again next time.
+        allowed.catch(() => {
+          if (this.readable!.get(id) === allowed) {
+            this.readable!.delete(id);
+          }
+        });
+      });
+    }
+    const results = await Promise.all(ids.map((id) => this.readable!.get(id)!));
+    // Evaluations were recorded above, but denials are reported every time.
+    results.forEach((allowed, i) => {
+      if (!allowed) {
+        this.onDenied?.({
+          table: tableName,
+          id: docs[i]._id as GenericId<any>,
+          operation,
+          rule,
+        });
+      }
+    });
+    return results;
   }
 
-  async get<TableName extends string>(
+  /**
+   * Remove the fields the ctx can't read, per the "fields" rules.
+   */
+  async redact<T extends GenericTableInfo>(
+    tableName: string,
+    doc: DocumentByInfo<T>
+  ): Promise<DocumentByInfo<T>> {
+    const fieldRules = this.rules[tableName]?.fields;
+    if (!fieldRules) {
+      return doc;
+    }
+    const redacted = { ...doc };
+    for (const [field, rules] of Object.entries(fieldRules)) {
+      if (!(field in doc) || !rules?.read) {
+        continue;
+      }
+      const check: AccessCheck = {
+        table: tableName,
+        id: doc._id as GenericId<any>,
+        operation: "read",
+        rule: `fields.${field}.read`,
+      };
+      if (!(await this.check(check, () => rules.read!(this.ctx, doc, field)))) {
+        delete redacted[field];
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Get a document if the read rule allows it, without removing fields.
+   */
+  async getReadable<TableName extends string>(
     id: GenericId<TableName>
   ): Promise<DocumentByName<DataModel, TableName> | null> {
     const doc = await this.db.get(id);
     if (doc) {
       const tableName = this.tableName(id);
-      if (tableName && !(await this.predicate(tableName, doc))) {
+      if (tableName === null) {
+        return this.allowedWithoutRules(null, "read", id) ? doc : null;
+      }
+      if (!(await this.predicate(tableName, doc))) {
         return null;
       }
       return doc;
@@ -390,12 +1081,45 @@ class WrapReader<Ctx, DataModel extends GenericDataModel>
     return null;
   }
 
+  async get<TableName extends string>(
+    id: GenericId<TableName>
+  ): Promise<DocumentByName<DataModel, TableName> | null> {
+    const doc = await this.getReadable(id);
+    const tableName = doc && this.tableName(id);
+    return tableName ? await this.redact(tableName, doc) : doc;
+  }
+
+  searchScope(tableName: string): SearchScope | undefined {
+    const search = this.rules[tableName]?.search;
+    if (!search) {
+      return undefined;
+    }
+    return (filter) =>
+      (filter as SearchFilterFinalizer<any, any>).eq(
+        search.tenantField,
+        search.tenantId(this.ctx) as any
+      );
+  }
+
   query<TableName extends string>(
     tableName: TableName
   ): QueryInitializer<NamedTableInfo<DataModel, TableName>> {
+    if (
+      !this.hasRules(tableName) &&
+      !this.allowedWithoutRules(tableName, "read")
+    ) {
+      throw new AccessDeniedError({
+        table: tableName,
+        operation: "read",
+        rule: "defaultPolicy",
+      });
+    }
     return new WrapQueryInitializer(
       this.db.query(tableName),
-      async (d) => await this.predicate(tableName, d)
+      async (d) => await this.predicate(tableName, d),
+      async (d) => await this.redact(tableName, d),
+      async (docs) => await this.predicateMany(tableName, docs),
+      this.searchScope(tableName)
     );
   }
 }
@@ -406,28 +1130,37 @@ class WrapWriter<Ctx, DataModel extends GenericDataModel>
   ctx: Ctx;
   db: GenericDatabaseWriter<DataModel>;
   system: GenericDatabaseWriter<DataModel>["system"];
-  reader: GenericDatabaseReader<DataModel>;
+  reader: WrapReader<Ctx, DataModel>;
   rules: Rules<Ctx, DataModel>;
 
   async modifyPredicate<T extends GenericTableInfo>(
     tableName: string,
-    doc: DocumentByInfo<T>
+    doc: DocumentByInfo<T>,
+    operation: RLSOperation
   ): Promise<boolean> {
-    if (!this.rules[tableName]?.modify) {
+    const modify = this.rules[tableName]?.modify;
+    if (!modify) {
       return true;
     }
-    return await this.rules[tableName]!.modify!(this.ctx, doc);
+    const check: AccessCheck = {
+      table: tableName,
+      id: doc._id as GenericId<any>,
+      operation,
+      rule: "modify",
+    };
+    return await this.reader.check(check, () => modify(this.ctx, doc));
   }
 
   constructor(
     ctx: Ctx,
     db: GenericDatabaseWriter<DataModel>,
-    rules: Rules<Ctx, DataModel>
+    rules: Rules<Ctx, DataModel>,
+    options?: RLSOptions
   ) {
     this.ctx = ctx;
     this.db = db;
     this.system = db.system;
-    this.reader = new WrapReader(ctx, db, rules);
+    this.reader = new WrapReader(ctx, db, rules, options);
     this.rules = rules;
   }
   normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
@@ -440,10 +1173,28 @@ class WrapWriter<Ctx, DataModel extends GenericDataModel>
     table: TableName,
     value: any
   ): Promise<any> {
-    const rules = this.rules[table];
-    if (rules?.insert && !(await rules.insert(this.ctx, value))) {
-      throw new Error("insert access not allowed");
+    if (
+      !this.reader.hasRules(table) &&
+      !this.reader.allowedWithoutRules(table, "insert")
+    ) {
+      throw new AccessDeniedError({
+        table,
+        operation: "insert",
+        rule: "defaultPolicy",
+      });
     }
+    const insert = this.rules[table]?.insert;
+    if (insert) {
+      const check: AccessCheck = { table, operation: "insert", rule: "insert" };
+      if (!(await this.reader.check(check, () => insert(this.ctx, value)))) {
+        throw new AccessDeniedError(check);
+      }
+    }
+    await this.checkFieldWrites(
+      { table, operation: "insert" },
+      value,
+      Object.keys(value).filter((field) => value[field] !== undefined)
+    );
     return await this.db.insert(table, value);
   }
   tableName<TableName extends string>(
@@ -456,39 +1207,98 @@ class WrapWriter<Ctx, DataModel extends GenericDataModel>
     }
     return null;
   }
-  async checkAuth<TableName extends string>(id: GenericId<TableName>) {
+  async checkAuth<TableName extends string>(
+    id: GenericId<TableName>,
+    operation: RLSOperation
+  ) {
     // Note all writes already do a `db.get` internally, so this isn't
     // an extra read; it's just populating the cache earlier.
-    // Since we call `this.get`, read access controls apply and this may return
-    // null even if the document exists.
-    const doc = await this.get(id);
+    const doc = await this.db.get(id);
+    // Read access controls apply: you can't write what you can't read.
+    // Documents you can't read are reported as missing, so writes can't be
+    // used to find out which IDs exist.
+    const notFound = new DocumentNotFoundError({ id, operation });
     if (doc === null) {
-      throw new Error("no read access or doc does not exist");
+      throw notFound;
     }
     const tableName = this.tableName(id);
     if (tableName === null) {
+      if (!this.reader.allowedWithoutRules(null, operation, id)) {
+        throw notFound;
+      }
+      return null;
+    }
+    if (!(await this.reader.predicate(tableName, doc, operation))) {
+      throw notFound;
+    }
+    if (!(await this.modifyPredicate(tableName, doc, operation))) {
+      throw new AccessDeniedError({
+        table: tableName,
+        id,
+        operation,
+        rule: "modify",
+      });
+    }
+    return { tableName, doc };
+  }
+  async checkFieldWrites(
+    write: { table: string; id?: GenericId<any>; operation: RLSOperation },
+    doc: any,
+    fields: string[]
+  ) {
+    const fieldRules = this.rules[write.table]?.fields as
+      | Record<string, { write?: FieldRule<Ctx, any> } | undefined>
+      | undefined;
+    if (!fieldRules) {
       return;
     }
-    if (!(await this.modifyPredicate(tableName, doc))) {
-      throw new Error("write access not allowed");
+    for (const field of fields) {
+      const rule = fieldRules[field]?.write;
+      if (!rule) {
+        continue;
+      }
+      const check: AccessCheck = { ...write, rule: `fields.${field}.write` };
+      if (!(await this.reader.check(check, () => rule(this.ctx, doc, field)))) {
+        throw new AccessDeniedError(check);
+      }
     }
   }
   async patch<TableName extends string>(
     id: GenericId<TableName>,
     value: Partial<any>
   ): Promise<void> {
-    await this.checkAuth(id);
+    const existing = await this.checkAuth(id, "patch");
+    if (existing) {
+      await this.checkFieldWrites(
+        { table: existing.tableName, id, operation: "patch" },
+        existing.doc,
+        changedFields(existing.doc, value, Object.keys(value))
+      );
+    }
+    this.reader.readable?.delete(id);
     return await this.db.patch(id, value);
   }
   async replace<TableName extends string>(
     id: GenericId<TableName>,
     value: any
   ): Promise<void> {
-    await this.checkAuth(id);
+    const existing = await this.checkAuth(id, "replace");
+    if (existing) {
+      const { doc } = existing;
+      await this.checkFieldWrites(
+        { table: existing.tableName, id, operation: "replace" },
+        doc,
+        changedFields(doc, value, [
+          ...new Set([...Object.keys(doc), ...Object.keys(value)]),
+        ])
+      );
+    }
+    this.reader.readable?.delete(id);
     return await this.db.replace(id, value);
   }
   async delete(id: GenericId<string>): Promise<void> {
-    await this.checkAuth(id);
+    await this.checkAuth(id, "delete");
+    this.reader.readable?.delete(id);
     return await this.db.delete(id);
   }
   get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
@@ -498,3 +1308,18 @@ class WrapWriter<Ctx, DataModel extends GenericDataModel>
     return this.reader.query(tableName);
   }
 }
+
+// Field write rules only apply to fields a write changes, so patches and
+// replaces can pass through values they can't write.
+function changedFields(doc: any, value: any, fields: string[]) {
+  return fields.filter(
+    (field) => !field.startsWith("_") && !sameValue(doc[field], value[field])
+  );
+}
+
+function sameValue(a: Value | undefined, b: Value | undefined) {
+  if (a === undefined || b === undefined) {
+    return a === b;
+  }
+  return JSON.stringify(convexToJson(a)) === JSON.stringify(convexToJson(b));
+}
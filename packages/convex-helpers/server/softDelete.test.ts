@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { purgeSoftDeleted, wrapDatabaseWithSoftDelete } from "./softDelete";
+
+const setup = () => {
+  const raw = fakeDb({ posts: { deletedAt: ["deletedAt"] } });
+  const db = wrapDatabaseWithSoftDelete({ user: "alice" }, raw, {
+    tables: ["posts"],
+    deletedBy: (ctx) => ctx.user,
+  });
+  return { raw, db };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(5000);
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("wrapDatabaseWithSoftDelete", () => {
+  test("marks documents as deleted", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("posts", { title: "a" });
+    await db.delete(id);
+    expect(raw.tables.posts).toEqual([
+      expect.objectContaining({ deletedAt: 5000, deletedBy: "alice" }),
+    ]);
+  });
+
+  test("hides deleted documents from reads", async () => {
+    const { db } = setup();
+    const kept = await db.insert("posts", { title: "kept" });
+    const gone = await db.insert("posts", { title: "gone" });
+    await db.delete(gone);
+    expect(await db.get(gone)).toBeNull();
+    expect(await db.get(kept)).not.toBeNull();
+    const titles = (docs: any[]) => docs.map((doc) => doc.title);
+    expect(titles(await db.query("posts").collect())).toEqual(["kept"]);
+    expect(titles(await db.query("posts").take(2))).toEqual(["kept"]);
+    const page = await db
+      .query("posts")
+      .order("desc")
+      .paginate({ numItems: 1, cursor: null });
+    expect(titles(page.page)).toEqual([]);
+    expect(page.isDone).toBe(false);
+    expect(titles(await db.withDeleted().query("posts").collect())).toEqual([
+      "kept",
+      "gone",
+    ]);
+  });
+
+  test("throws on writes to deleted documents", async () => {
+    const { db } = setup();
+    const id = await db.insert("posts", { title: "a" });
+    await db.delete(id);
+    const message = `Document ${id} has been deleted or does not exist`;
+    await expect(db.patch(id, { title: "b" })).rejects.toThrow(message);
+    await expect(db.replace(id, { title: "b" })).rejects.toThrow(message);
+    await expect(db.delete(id)).rejects.toThrow(message);
+  });
+
+  test("restores deleted documents", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("posts", { title: "a" });
+    await db.delete(id);
+    await db.restore(id);
+    expect(await db.get(id)).toMatchObject({ title: "a" });
+    expect(Object.keys(raw.tables.posts[0])).not.toContain("deletedAt");
+  });
+
+  test("only restores documents in soft delete tables", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("users", { name: "a" });
+    await expect(db.restore(id)).rejects.toThrow(
+      `Document ${id} isn't in a table with soft deletes`
+    );
+    expect(raw.tables.users).toHaveLength(1);
+  });
+
+  test("deletes documents in other tables", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("users", { name: "a" });
+    await db.delete(id);
+    expect(raw.tables.users).toEqual([]);
+  });
+
+  test("wraps readers", async () => {
+    const { raw } = setup();
+    const id = await raw.insert("posts", { title: "a", deletedAt: 1 });
+    const { get, query, normalizeId, system } = raw;
+    const reader = wrapDatabaseWithSoftDelete(
+      {},
+      { get, query, normalizeId, system },
+      { tables: ["posts"] }
+    );
+    expect(await reader.get(id)).toBeNull();
+    expect(await reader.query("posts").collect()).toEqual([]);
+    expect("restore" in reader).toBe(false);
+  });
+});
+
+describe("purgeSoftDeleted", () => {
+  test("deletes documents past the retention", async () => {
+    const { raw } = setup();
+    await raw.insert("posts", { title: "old", deletedAt: 1000 });
+    await raw.insert("posts", { title: "recent", deletedAt: 4500 });
+    await raw.insert("posts", { title: "live" });
+    const purge = purgeSoftDeleted(["posts"], { retention: 1000 });
+    expect(await purge.handler({ db: raw } as any)).toEqual({
+      deleted: 1,
+      hasMore: false,
+    });
+    expect(raw.tables.posts.map((doc) => doc.title)).toEqual([
+      "recent",
+      "live",
+    ]);
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Soft deletes: mark documents as deleted instead of removing them, so they
+ * can be restored, and hide them from reads.
+ *
+ * ```js
+ * // convex/schema.ts
+ * export default defineSchema({
+ *   posts: defineTable({ title: v.string(), ...softDeleteFields })
+ *     .index("deletedAt", ["deletedAt"]),
+ * });
+ *
+ * // convex/lib/functions.ts
+ * const softDeleteOptions = {
+ *   tables: ["posts"],
+ *   deletedBy: (ctx) => ctx.user._id,
+ * };
+ * const myMutation = customMutation(
+ *   mutation,
+ *   customCtx(async (ctx) => {
+ *     const user = await getUser(ctx);
+ *     const db = wrapDatabaseWithSoftDelete({ user }, ctx.db, softDeleteOptions);
+ *     return { user, db };
+ *   })
+ * );
+ *
+ * // convex/posts.ts
+ * export const remove = myMutation({
+ *   args: { postId: v.id("posts") },
+ *   // Sets deletedAt and deletedBy. It can be undone with db.restore(postId).
+ *   handler: (ctx, { postId }) => ctx.db.delete(postId),
+ * });
+ * ```
+ */
+import {
+  DocumentByInfo,
+  DocumentByName,
+  GenericDataModel,
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  GenericMutationCtx,
+  NamedTableInfo,
+  QueryInitializer,
+  TableNamesInDataModel,
+} from "convex/server";
+import { GenericId, ObjectType, v } from "convex/values";
+import { WrapQueryInitializer } from "./rowLevelSecurity";
+
+/**
+ * Fields to add to tables with soft deletes.
+ * e.g. `defineTable({ ...myFields, ...softDeleteFields })`
+ */
+export const softDeleteFields = {
+  deletedAt: v.optional(v.number()),
+  deletedBy: v.optional(v.string()),
+};
+
+/**
+ * Options for `wrapDatabaseWithSoftDelete`.
+ */
+export type SoftDeleteOptions<Ctx, DataModel extends GenericDataModel> = {
+  /**
+   * Tables whose documents are soft deleted. They need `softDeleteFields`.
+   * Documents in other tables are deleted as usual.
+   */
+  tables: TableNamesInDataModel<DataModel>[];
+  /**
+   * Who is deleting documents, recorded as `deletedBy`.
+   */
+  deletedBy?: (ctx: Ctx) => string | undefined;
+};
+
+/**
+ * A database reader that hides soft-deleted documents.
+ */
+export type SoftDeleteDatabaseReader<DataModel extends GenericDataModel> =
+  GenericDatabaseReader<DataModel> & {
+    /**
+     * @returns The underlying database, which includes soft-deleted documents.
+     */
+    withDeleted(): GenericDatabaseReader<DataModel>;
+  };
+
+/**
+ * A database writer that hides soft-deleted documents, and soft deletes them
+ * on `delete`.
+ */
+export type SoftDeleteDatabaseWriter<DataModel extends GenericDataModel> =
+  GenericDatabaseWriter<DataModel> & {
+    /**
+     * @returns The underlying database, which includes soft-deleted documents
+     *   and deletes them permanently.
+     */
+    withDeleted(): GenericDatabaseWriter<DataModel>;
+    /**
+     * Restore a soft-deleted document.
+     * Throws if the document isn't in one of the soft delete `tables`.
+     * @param id The ID of the document to restore.
+     */
+    restore(id: GenericId<TableNamesInDataModel<DataModel>>): Promise<void>;
+  };
+
+/**
+ * Wrap a database reader or writer so reads skip soft-deleted documents, and
+ * `delete` sets `deletedAt` and `deletedBy` instead of removing documents.
+ *
+ * Reads through `get`, `collect`, `take`, `first`, `unique`, `paginate`, and
+ * async iteration all skip soft-deleted documents.
+ * Patching, replacing, or deleting a soft-deleted document throws, as if it
+ * didn't exist.
+ *
+ * @param ctx The ctx to pass to the `deletedBy` option.
+ * @param db The database to wrap, e.g. `ctx.db`.
+ * @param options Which tables to soft delete from.
+ * @returns A database with `withDeleted()`, and `restore(id)` for writers.
+ */
+export function wrapDatabaseWithSoftDelete<
+  Ctx,
+  DataModel extends GenericDataModel
+>(
+  ctx: Ctx,
+  db: GenericDatabaseWriter<DataModel>,
+  options: SoftDeleteOptions<Ctx, DataModel>
+): SoftDeleteDatabaseWriter<DataModel>;
+export function wrapDatabaseWithSoftDelete<
+  Ctx,
+  DataModel extends GenericDataModel
+>(
+  ctx: Ctx,
+  db: GenericDatabaseReader<DataModel>,
+  options: SoftDeleteOptions<Ctx, DataModel>
+): SoftDeleteDatabaseReader<DataModel>;
+export function wrapDatabaseWithSoftDelete<
+  Ctx,
+  DataModel extends GenericDataModel
+>(
+  ctx: Ctx,
+  db: GenericDatabaseReader<DataModel> | GenericDatabaseWriter<DataModel>,
+  options: SoftDeleteOptions<Ctx, DataModel>
+): SoftDeleteDatabaseReader<DataModel> | SoftDeleteDatabaseWriter<DataModel> {
+  if ("insert" in db) {
+    return new SoftDeleteWriter(ctx, db, options);
+  }
+  return new SoftDeleteReader(db, options);
+}
+
+/**
+ * A mutation definition that permanently deletes documents soft deleted more
+ * than `retention` milliseconds ago. Each table needs an index on
+ * `deletedAt` named "deletedAt".
+ *
+ * e.g. `export const purge = internalMutation(purgeSoftDeleted(["posts"], { retention: 30 * DAY }))`
+ * and run it from a cron. It deletes up to `batchSize` documents per table
+ * per run, defaulting to 1000.
+ *
+ * @param tables The tables to purge.
+ * @param options How long to keep soft-deleted documents for.
+ * @returns A mutation definition to pass to `internalMutation`.
+ */
+export function purgeSoftDeleted<DataModel extends GenericDataModel>(
+  tables: TableNamesInDataModel<DataModel>[],
+  options: { retention: number; batchSize?: number }
+) {
+  return {
+    args: {},
+    handler: async (ctx: GenericMutationCtx<DataModel>) => {
+      const cutoff = Date.now() - options.retention;
+      const batchSize = options.batchSize ?? 1000;
+      let deleted = 0;
+      let hasMore = false;
+      for (const table of tables) {
+        const expired = await (ctx.db.query(table) as QueryInitializer<any>)
+          .withIndex("deletedAt", (q) =>
+            q.gte("deletedAt", 0).lt("deletedAt", cutoff)
+          )
+          .take(batchSize);
+        for (const doc of expired) {
+          await ctx.db.delete(doc._id);
+        }
+        deleted += expired.length;
+        hasMore = hasMore || expired.length === batchSize;
+      }
+      return { deleted, hasMore };
+    },
+  };
+}
+
+class SoftDeleteReader<Ctx, DataModel extends GenericDataModel>
+  implements SoftDeleteDatabaseReader<DataModel>
+{
+  db: GenericDatabaseReader<DataModel>;
+  system: GenericDatabaseReader<DataModel>["system"];
+  options: SoftDeleteOptions<Ctx, DataModel>;
+
+  constructor(
+    db: GenericDatabaseReader<DataModel>,
+    options: SoftDeleteOptions<Ctx, DataModel>
+  ) {
+    this.db = db;
+    this.system = db.system;
+    this.options = options;
+  }
+
+  withDeleted(): GenericDatabaseReader<DataModel> {
+    return this.db;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  isSoftDeleteTable(tableName: string): boolean {
+    return (this.options.tables as string[]).includes(tableName);
+  }
+
+  tableName(id: GenericId<string>): TableNamesInDataModel<DataModel> | null {
+    for (const tableName of this.options.tables) {
+      if (this.db.normalizeId(tableName, id)) {
+        return tableName;
+      }
+    }
+    return null;
+  }
+
+  async get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    const doc = await this.db.get(id);
+    if (doc && doc.deletedAt !== undefined && this.tableName(id)) {
+      return null;
+    }
+    return doc;
+  }
+
+  query<TableName extends string>(
+    tableName: TableName
+  ): QueryInitializer<NamedTableInfo<DataModel, TableName>> {
+    const query = this.db.query(tableName);
+    if (!this.isSoftDeleteTable(tableName)) {
+      return query;
+    }
+    return new WrapQueryInitializer(
+      query,
+      async (doc: DocumentByInfo<NamedTableInfo<DataModel, TableName>>) =>
+        doc.deletedAt === undefined
+    );
+  }
+}
+
+class SoftDeleteWriter<Ctx, DataModel extends GenericDataModel>
+  implements SoftDeleteDatabaseWriter<DataModel>
+{
+  ctx: Ctx;
+  db: GenericDatabaseWriter<DataModel>;
+  system: GenericDatabaseWriter<DataModel>["system"];
+  reader: SoftDeleteReader<Ctx, DataModel>;
+  options: SoftDeleteOptions<Ctx, DataModel>;
+
+  constructor(
+    ctx: Ctx,
+    db: GenericDatabaseWriter<DataModel>,
+    options: SoftDeleteOptions<Ctx, DataModel>
+  ) {
+    this.ctx = ctx;
+    this.db = db;
+    this.system = db.system;
+    this.reader = new SoftDeleteReader(db, options);
+    this.options = options;
+  }
+
+  withDeleted(): GenericDatabaseWriter<DataModel> {
+    return this.db;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  async checkNotDeleted<TableName extends string>(id: GenericId<TableName>) {
+    if (this.reader.tableName(id) && (await this.get(id)) === null) {
+      throw new Error(`Document ${id} has been deleted or does not exist`);
+    }
+  }
+
+  async insert<TableName extends string>(
+    table: TableName,
+    value: any
+  ): Promise<any> {
+    return await this.db.insert(table, value);
+  }
+
+  async patch<TableName extends string>(
+    id: GenericId<TableName>,
+    value: Partial<any>
+  ): Promise<void> {
+    await this.checkNotDeleted(id);
+    return await this.db.patch(id, value);
+  }
+
+  async replace<TableName extends string>(
+    id: GenericId<TableName>,
+    value: any
+  ): Promise<void> {
+    await this.checkNotDeleted(id);
+    return await this.db.replace(id, value);
+  }
+
+  // Documents in the soft delete tables have `softDeleteFields`, but
+  // DataModel doesn't say so.
+  async patchSoftDeleteFields<
+    TableName extends TableNamesInDataModel<DataModel>
+  >(id: GenericId<TableName>, fields: ObjectType<typeof softDeleteFields>) {
+    await this.db.patch(
+      id,
+      fields as Partial<DocumentByName<DataModel, TableName>>
+    );
+  }
+
+  async delete(id: GenericId<string>): Promise<void> {
+    if (!this.reader.tableName(id)) {
+      return await this.db.delete(id);
+    }
+    await this.checkNotDeleted(id);
+    await this.patchSoftDeleteFields(id, {
+      deletedAt: Date.now(),
+      deletedBy: this.options.deletedBy?.(this.ctx),
+    });
+  }
+
+  async restore(id: GenericId<TableNamesInDataModel<DataModel>>) {
+    if (!this.reader.tableName(id)) {
+      throw new Error(`Document ${id} isn't in a table with soft deletes`);
+    }
+    await this.patchSoftDeleteFields(id, {
+      deletedAt: undefined,
+      deletedBy: undefined,
+    });
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.reader.get(id);
+  }
+
+  query<TableName extends string>(tableName: TableName): QueryInitializer<any> {
+    return this.reader.query(tableName);
+  }
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { AccessDeniedError, DocumentNotFoundError } from "./rowLevelSecurity";
+import { TenantOptions, wrapDatabaseForTenant } from "./tenants";
+
+const setup = async (options: Partial<TenantOptions<any>> = {}) => {
+  const raw = fakeDb({
+    projects: { by_org_name: ["orgId", "name"], by_name: ["name"] },
+  });
+  const ours = await raw.insert("projects", { orgId: "a", name: "ours" });
+  const theirs = await raw.insert("projects", { orgId: "b", name: "theirs" });
+  const db = wrapDatabaseForTenant(raw, {
+    tenantId: "a",
+    tenantField: "orgId",
+    tables: ["projects"],
+    unscopedQueries: "ignore",
+    ...options,
+  });
+  return { raw, db, ours, theirs };
+};
+const names = (docs: any[]) => docs.map((doc) => doc.name);
+
+let warn: ReturnType<typeof vi.spyOn>;
+beforeEach(() => {
+  warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => {
+  warn.mockRestore();
+});
+
+describe("wrapDatabaseForTenant", () => {
+  test("only reads the tenant's documents", async () => {
+    const { db, ours, theirs } = await setup();
+    expect(await db.get(ours)).not.toBeNull();
+    expect(await db.get(theirs)).toBeNull();
+    expect(names(await db.query("projects").collect())).toEqual(["ours"]);
+  });
+
+  test("can't be bypassed with index ranges or filters", async () => {
+    const { db } = await setup();
+    const byOrg = (orgId: string) =>
+      db
+        .query("projects")
+        .withIndex("by_org_name", (q) => q.eq("orgId", orgId));
+    expect(await byOrg("b").collect()).toEqual([]);
+    expect(await byOrg("b").first()).toBeNull();
+    expect(
+      await db
+        .query("projects")
+        .withIndex("by_name", (q) => q.eq("name", "theirs"))
+        .unique()
+    ).toBeNull();
+    expect(
+      await db
+        .query("projects")
+        .filter((q) => q.eq(q.field("orgId"), "b"))
+        .collect()
+    ).toEqual([]);
+    expect(
+      await db
+        .query("projects")
+        .withIndex("by_org_name")
+        .order("desc")
+        .paginate({ numItems: 5, cursor: null })
+    ).toMatchObject({ page: [expect.objectContaining({ name: "ours" })] });
+  });
+
+  test("sets the tenant on inserts", async () => {
+    const { raw, db } = await setup();
+    const id = await db.insert("projects", { name: "new" });
+    expect(await raw.get(id)).toMatchObject({ orgId: "a" });
+    await expect(
+      db.insert("projects", { orgId: "b", name: "new" })
+    ).rejects.toThrow(
+      new AccessDeniedError({
+        table: "projects",
+        operation: "insert",
+        rule: "tenant",
+      })
+    );
+  });
+
+  test("can't move documents to another tenant", async () => {
+    const { db, ours } = await setup();
+    await expect(db.patch(ours, { orgId: "b" })).rejects.toThrow(
+      "rule: tenant"
+    );
+    await expect(db.replace(ours, { orgId: "b", name: "x" })).rejects.toThrow(
+      "rule: tenant"
+    );
+    // Replacing without the tenant field keeps it.
+    await db.replace(ours, { name: "renamed" });
+    expect(await db.get(ours)).toMatchObject({ orgId: "a", name: "renamed" });
+  });
+
+  test("writes to other tenants' documents as if they didn't exist", async () => {
+    const { raw, db, theirs } = await setup();
+    await expect(db.patch(theirs, { name: "x" })).rejects.toThrow(
+      `document ${theirs} does not exist`
+    );
+    await expect(db.delete(theirs)).rejects.toThrow(DocumentNotFoundError);
+    expect(raw.tables.projects).toHaveLength(2);
+  });
+
+  test("doesn't scope other tables", async () => {
+    const { raw, db } = await setup({ unscopedQueries: "error" });
+    const id = await raw.insert("users", { orgId: "b" });
+    expect(await db.get(id)).not.toBeNull();
+    expect(await db.query("users").collect()).toHaveLength(1);
+    await db.patch(id, { orgId: "c" });
+  });
+});
+
+describe("unscopedQueries", () => {
+  test('"error" throws on queries not starting with the tenant', async () => {
+    const { db } = await setup({ unscopedQueries: "error" });
+    const message =
+      'Query on projects with index "by_name" isn\'t scoped to the tenant. ' +
+      'Use an index starting with "orgId", with q.eq("orgId", tenantId).';
+    expect(() =>
+      db.query("projects").withIndex("by_name", (q) => q.eq("name", "ours"))
+    ).toThrow(message);
+    expect(() => db.query("projects").collect()).toThrow(
+      "Query on projects isn't scoped to the tenant."
+    );
+    expect(() => db.query("projects").withIndex("by_org_name")).toThrow(
+      'with index "by_org_name"'
+    );
+    expect(() =>
+      db.query("projects").withIndex("by_org_name", (q) => q.eq("orgId", "b"))
+    ).toThrow('with index "by_org_name"');
+    expect(() =>
+      db.query("projects").withIndex("by_org_name", (q) => q.gte("orgId", "a"))
+    ).toThrow('with index "by_org_name"');
+  });
+
+  test("allows queries scoped to the tenant", async () => {
+    const { db } = await setup({ unscopedQueries: "error" });
+    expect(
+      names(
+        await db
+          .query("projects")
+          // Untyped tables' indexes have one field, as far as types know.
+          .withIndex("by_org_name", (q) =>
+            (q.eq("orgId", "a") as any).eq("name", "ours")
+          )
+          .collect()
+      )
+    ).toEqual(["ours"]);
+  });
+
+  test('"warn" warns once per table and index', async () => {
+    const { db } = await setup({ unscopedQueries: undefined });
+    await db.query("projects").collect();
+    await db.query("projects").collect();
+    await db
+      .query("projects")
+      .withIndex("by_name", (q) => q.eq("name", "ours"))
+      .collect();
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Scope a database to one tenant, e.g. an organization, for tables where each
+ * document belongs to a tenant.
+ *
+ * ```js
+ * // convex/schema.ts
+ * export default defineSchema({
+ *   projects: defineTable({ orgId: v.id("orgs"), name: v.string() })
+ *     .index("by_org_name", ["orgId", "name"]),
+ * });
+ *
+ * // convex/lib/functions.ts
+ * const orgMutation = customMutation(
+ *   mutation,
+ *   customCtx(async (ctx) => {
+ *     const user = await getUser(ctx);
+ *     const db = wrapDatabaseForTenant(ctx.db, {
+ *       tenantId: user.orgId,
+ *       tenantField: "orgId",
+ *       tables: ["projects"],
+ *     });
+ *     return { user, db };
+ *   })
+ * );
+ *
+ * // convex/projects.ts
+ * export const create = orgMutation({
+ *   args: { name: v.string() },
+ *   // orgId is added automatically.
+ *   handler: (ctx, { name }) => ctx.db.insert("projects", { name }),
+ * });
+ * ```
+ */
+import {
+  DocumentByInfo,
+  GenericDataModel,
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  GenericTableInfo,
+  IndexRange,
+  IndexRangeBuilder,
+  Indexes,
+  NamedIndex,
+  NamedTableInfo,
+  Query,
+  QueryInitializer,
+  TableNamesInDataModel,
+} from "convex/server";
+import { GenericId, Value } from "convex/values";
+import {
+  AccessDeniedError,
+  RLSOperation,
+  Rules,
+  WrapQueryInitializer,
+  wrapDatabaseReader,
+  wrapDatabaseWriter,
+} from "./rowLevelSecurity";
+
+/**
+ * Options for `wrapDatabaseForTenant`.
+ */
+export type TenantOptions<DataModel extends GenericDataModel> = {
+  /**
+   * The tenant to scope the database to, e.g. the user's organization ID.
+   */
+  tenantId: Value;
+  /**
+   * The field holding each document's tenant, e.g. "orgId".
+   */
+  tenantField: string;
+  /**
+   * The tables whose documents belong to tenants. Other tables aren't scoped.
+   */
+  tables: TableNamesInDataModel<DataModel>[];
+  /**
+   * What to do when a query on a tenant table doesn't start its index range
+   * with `q.eq(tenantField, tenantId)`, so it reads other tenants' documents
+   * only to filter them out:
+   * - "warn": Log a warning, once per table and index. The default.
+   * - "error": Throw an error.
+   * - "ignore": Do nothing.
+   */
+  unscopedQueries?: "warn" | "error" | "ignore";
+};
+
+/**
+ * Wrap a database reader or writer so it only sees and changes one tenant's
+ * documents, building on row-level security:
+ * - Reads skip documents from other tenants, as if they didn't exist.
+ * - Writes to documents from other tenants throw as if they didn't exist.
+ * - Inserts get the tenant field set automatically.
+ * - Patches and replaces can't change the tenant field.
+ * - Queries should use indexes starting with the tenant field. See the
+ *   `unscopedQueries` option.
+ *
+ * @param db The database to wrap, e.g. `ctx.db`.
+ * @param options The tenant, and which tables are scoped to it.
+ * @returns A database with the same interface as `db`.
+ */
+export function wrapDatabaseForTenant<DataModel extends GenericDataModel>(
+  db: GenericDatabaseWriter<DataModel>,
+  options: TenantOptions<DataModel>
+): GenericDatabaseWriter<DataModel>;
+export function wrapDatabaseForTenant<DataModel extends GenericDataModel>(
+  db: GenericDatabaseReader<DataModel>,
+  options: TenantOptions<DataModel>
+): GenericDatabaseReader<DataModel>;
+export function wrapDatabaseForTenant<DataModel extends GenericDataModel>(
+  db: GenericDatabaseReader<DataModel> | GenericDatabaseWriter<DataModel>,
+  options: TenantOptions<DataModel>
+): GenericDatabaseReader<DataModel> | GenericDatabaseWriter<DataModel> {
+  if ("insert" in db) {
+    return new TenantWriter(db, options);
+  }
+  return new TenantReader(db, options);
+}
+
+function tenantRules<DataModel extends GenericDataModel>({
+  tenantId,
+  tenantField,
+  tables,
+}: TenantOptions<DataModel>): Rules<{}, DataModel> {
+  const belongs = async (_ctx: {}, doc: any) => doc[tenantField] === tenantId;
+  const rules: Rules<{}, any> = {};
+  for (const table of tables) {
+    rules[table] = { read: belongs, modify: belongs, insert: belongs };
+  }
+  return rules;
+}
+
+/**
+ * A query initializer that checks index ranges start with the tenant.
+ */
+class TenantQueryInitializer<
+  T extends GenericTableInfo
+> extends WrapQueryInitializer<T> {
+  checkScoped: (indexName: string | null, scoped: boolean) => void;
+  tenantField: string;
+  tenantId: Value;
+
+  constructor(
+    q: QueryInitializer<T>,
+    options: TenantOptions<any>,
+    checkScoped: (indexName: string | null, scoped: boolean) => void
+  ) {
+    // The wrapped query already skips other tenants' documents.
+    super(q, async () => true);
+    this.tenantField = options.tenantField;
+    this.tenantId = options.tenantId;
+    this.checkScoped = checkScoped;
+  }
+
+  fullTableScan(): Query<T> {
+    this.checkScoped(null, false);
+    return super.fullTableScan();
+  }
+
+  withIndex<IndexName extends keyof Indexes<T>>(
+    indexName: IndexName,
+    indexRange?:
+      | ((
+          q: IndexRangeBuilder<DocumentByInfo<T>, NamedIndex<T, IndexName>, 0>
+        ) => IndexRange)
+      | undefined
+  ): Query<T> {
+    // Note which comparison the range starts with, passing it through.
+    let first: { op: string; field: string; value: Value } | undefined;
+    const scoped = (
+      q: IndexRangeBuilder<DocumentByInfo<T>, NamedIndex<T, IndexName>, 0>
+    ) => {
+      const recording = new Proxy(q, {
+        get: (target, property, receiver) => {
+          const value = Reflect.get(target, property, receiver);
+          if (!isComparison(property)) {
+            return value;
+          }
+          return (field: string, compared: Value) => {
+            first ??= { op: property, field, value: compared };
+            return value.call(target, field, compared);
+          };
+        },
+      });
+      const range = indexRange ? indexRange(recording) : q;
+      this.checkScoped(
+        indexName as string,
+        first?.op === "eq" &&
+          first.field === this.tenantField &&
+          first.value === this.tenantId
+      );
+      return range;
+    };
+    return super.withIndex(indexName, scoped);
+  }
+}
+
+const comparisons = ["eq", "gt", "gte", "lt", "lte"];
+
+function isComparison(property: string | symbol): property is string {
+  return typeof property === "string" && comparisons.includes(property);
+}
+
+class TenantReader<DataModel extends GenericDataModel>
+  implements GenericDatabaseReader<DataModel>
+{
+  db: GenericDatabaseReader<DataModel>;
+  system: GenericDatabaseReader<DataModel>["system"];
+  options: TenantOptions<DataModel>;
+  // Tables and indexes we've warned about.
+  warned = new Set<string>();
+
+  constructor(
+    db: GenericDatabaseReader<DataModel>,
+    options: TenantOptions<DataModel>
+  ) {
+    this.db = wrapDatabaseReader({}, db, tenantRules(options));
+    this.system = db.system;
+    this.options = options;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  isTenantTable(tableName: string): boolean {
+    return (this.options.tables as string[]).includes(tableName);
+  }
+
+  tableName<TableName extends string>(
+    id: GenericId<TableName>
+  ): TableName | null {
+    for (const tableName of this.options.tables) {
+      if (this.db.normalizeId(tableName, id)) {
+        return tableName as string as TableName;
+      }
+    }
+    return null;
+  }
+
+  checkScoped(tableName: string, indexName: string | null, scoped: boolean) {
+    const unscopedQueries = this.options.unscopedQueries ?? "warn";
+    if (scoped || unscopedQueries === "ignore") {
+      return;
+    }
+    const { tenantField } = this.options;
+    const message =
+      `Query on ${tableName}` +
+      (indexName ? ` with index "${indexName}"` : "") +
+      " isn't scoped to the tenant. Use an index starting with " +
+      `"${tenantField}", with q.eq("${tenantField}", tenantId).`;
+    if (unscopedQueries === "error") {
+      throw new Error(message);
+    }
+    const key = `${tableName}.${indexName}`;
+    if (!this.warned.has(key)) {
+      this.warned.add(key);
+      console.warn(message);
+    }
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.db.get(id);
+  }
+
+  query<TableName extends string>(
+    tableName: TableName
+  ): QueryInitializer<NamedTableInfo<DataModel, TableName>> {
+    const query = this.db.query(tableName);
+    if (!this.isTenantTable(tableName)) {
+      return query;
+    }
+    return new TenantQueryInitializer(
+      query,
+      this.options,
+      (indexName, scoped) => this.checkScoped(tableName, indexName, scoped)
+    );
+  }
+}
+
+class TenantWriter<DataModel extends GenericDataModel>
+  implements GenericDatabaseWriter<DataModel>
+{
+  db: GenericDatabaseWriter<DataModel>;
+  system: GenericDatabaseWriter<DataModel>["system"];
+  reader: TenantReader<DataModel>;
+  options: TenantOptions<DataModel>;
+
+  constructor(
+    db: GenericDatabaseWriter<DataModel>,
+    options: TenantOptions<DataModel>
+  ) {
+    this.db = wrapDatabaseWriter({}, db, tenantRules(options));
+    this.system = db.system;
+    this.reader = new TenantReader(db, options);
+    this.options = options;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  // Set the tenant field if it's missing.
+  withTenant(value: any) {
+    const { tenantField, tenantId } = this.options;
+    return value[tenantField] === undefined
+      ? { ...value, [tenantField]: tenantId }
+      : value;
+  }
+
+  // Throw if a write would move a document to another tenant.
+  checkTenant(
+    table: string,
+    operation: RLSOperation,
+    value: any,
+    id?: GenericId<any>
+  ) {
+    const { tenantField, tenantId } = this.options;
+    if (value[tenantField] !== tenantId) {
+      throw new AccessDeniedError({ table, id, operation, rule: "tenant" });
+    }
+  }
+
+  async insert<TableName extends string>(
+    table: TableName,
+    value: any
+  ): Promise<any> {
+    if (!this.reader.isTenantTable(table)) {
+      return await this.db.insert(table, value);
+    }
+    const withTenant = this.withTenant(value);
+    this.checkTenant(table, "insert", withTenant);
+    return await this.db.insert(table, withTenant);
+  }
+
+  async patch<TableName extends string>(
+    id: GenericId<TableName>,
+    value: Partial<any>
+  ): Promise<void> {
+    const table = this.reader.tableName(id);
+    if (table && this.options.tenantField in value) {
+      this.checkTenant(table, "patch", value, id);
+    }
+    return await this.db.patch(id, value);
+  }
+
+  async replace<TableName extends string>(
+    id: GenericId<TableName>,
+    value: any
+  ): Promise<void> {
+    const table = this.reader.tableName(id);
+    if (!table) {
+      return await this.db.replace(id, value);
+    }
+    const withTenant = this.withTenant(value);
+    this.checkTenant(table, "replace", withTenant, id);
+    return await this.db.replace(id, withTenant);
+  }
+
+  async delete(id: GenericId<string>): Promise<void> {
+    return await this.db.delete(id);
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.reader.get(id);
+  }
+
+  query<TableName extends string>(tableName: TableName): QueryInitializer<any> {
+    return this.reader.query(tableName);
+  }
+}
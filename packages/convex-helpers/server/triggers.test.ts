@@ -0,0 +1,130 @@
+import { describe, expect, test, vi } from "vitest";
+import { fakeDb } from "../test/fakeDb";
+import { Triggers, wrapDatabaseWriterWithTriggers } from "./triggers";
+
+describe("wrapDatabaseWriterWithTriggers", () => {
+  test("passes each change to the table's triggers in order", async () => {
+    const calls: string[] = [];
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers({ user: "u" }, raw, {
+      posts: [
+        async (ctx, change) => {
+          expect(ctx.user).toBe("u");
+          calls.push(
+            `${change.operation}:${change.oldDoc?.title}:${change.newDoc?.title}`
+          );
+        },
+        () => {
+          calls.push("second");
+        },
+      ],
+    } as Triggers<{ user: string }, any>);
+    const id = await db.insert("posts", { title: "a" });
+    await db.patch(id, { title: "b" });
+    await db.replace(id, { title: "c" });
+    await db.delete(id);
+    expect(calls).toEqual([
+      "insert:undefined:a",
+      "second",
+      "patch:a:b",
+      "second",
+      "replace:b:c",
+      "second",
+      "delete:c:undefined",
+      "second",
+    ]);
+  });
+
+  test("doesn't run triggers for other tables", async () => {
+    const trigger = vi.fn();
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers({}, raw, { posts: [trigger] });
+    const id = await db.insert("users", { name: "a" });
+    await db.patch(id, { name: "b" });
+    await db.delete(id);
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  test("runs triggers for writes made by triggers", async () => {
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers({}, raw, {
+      posts: [
+        async (ctx, { operation, newDoc }) => {
+          if (operation === "insert") {
+            await ctx.db.patch(newDoc.authorId, { posts: 1 });
+          }
+        },
+      ],
+      users: [
+        async (ctx, { operation, id }) => {
+          if (operation === "patch") {
+            await ctx.db.insert("log", { user: id });
+          }
+        },
+      ],
+    } as Triggers<{}, any>);
+    const authorId = await raw.insert("users", { posts: 0 });
+    await db.insert("posts", { authorId });
+    expect(raw.tables.users[0].posts).toBe(1);
+    expect(raw.tables.log).toEqual([
+      expect.objectContaining({ user: authorId }),
+    ]);
+  });
+
+  test("stops recursive triggers at maxDepth", async () => {
+    let runs = 0;
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers(
+      {},
+      raw,
+      {
+        counters: [
+          async (ctx, { id, newDoc }) => {
+            runs++;
+            await ctx.db.patch(id, { n: newDoc!.n + 1 });
+          },
+        ],
+      } as Triggers<{}, any>,
+      { maxDepth: 3 }
+    );
+    await expect(db.insert("counters", { n: 0 })).rejects.toThrow(
+      "Triggers for counters ran more than 3 levels deep."
+    );
+    expect(runs).toBe(3);
+  });
+
+  test("allows recursion that stops within maxDepth", async () => {
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers(
+      {},
+      raw,
+      {
+        counters: [
+          async (ctx, { id, newDoc }) => {
+            if (newDoc!.n < 3) {
+              await ctx.db.patch(id, { n: newDoc!.n + 1 });
+            }
+          },
+        ],
+      } as Triggers<{}, any>,
+      { maxDepth: 4 }
+    );
+    await db.insert("counters", { n: 0 });
+    expect(raw.tables.counters[0].n).toBe(3);
+  });
+
+  test("defaults maxDepth to 10", async () => {
+    let runs = 0;
+    const raw = fakeDb();
+    const db = wrapDatabaseWriterWithTriggers({}, raw, {
+      counters: [
+        async (ctx, { id }) => {
+          runs++;
+          await ctx.db.patch(id, {});
+        },
+      ],
+    } as Triggers<{}, any>);
+    await expect(db.insert("counters", {})).rejects.toThrow("10 levels");
+    expect(runs).toBe(10);
+  });
+});
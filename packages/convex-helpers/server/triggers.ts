@@ -0,0 +1,264 @@
+/**
+ * Triggers: run code whenever a document in a table changes.
+ *
+ * Use them to keep derived data in sync, e.g. counts, denormalized fields, or
+ * search fields. Triggers run in the same transaction as the write, so if a
+ * trigger throws, the whole mutation is rolled back.
+ *
+ * ```js
+ * const triggers: Triggers<MutationCtx, DataModel> = {
+ *   posts: [
+ *     async (ctx, { operation, newDoc }) => {
+ *       if (operation === "insert") {
+ *         const author = (await ctx.db.get(newDoc.authorId))!;
+ *         await ctx.db.patch(author._id, { postCount: author.postCount + 1 });
+ *       }
+ *     },
+ *   ],
+ * };
+ * const mutationWithTriggers = customMutation(
+ *   mutation,
+ *   customCtx((ctx) => ({
+ *     db: wrapDatabaseWriterWithTriggers(ctx, ctx.db, triggers),
+ *   }))
+ * );
+ * ```
+ */
+import {
+  DocumentByName,
+  GenericDataModel,
+  GenericDatabaseWriter,
+  QueryInitializer,
+  TableNamesInDataModel,
+} from "convex/server";
+import { GenericId } from "convex/values";
+
+/**
+ * A change to a document, passed to triggers.
+ * `oldDoc` is null for inserts, and `newDoc` is null for deletes.
+ */
+export type Change<
+  DataModel extends GenericDataModel,
+  TableName extends TableNamesInDataModel<DataModel>
+> = {
+  id: GenericId<TableName>;
+} & (
+  | {
+      operation: "insert";
+      oldDoc: null;
+      newDoc: DocumentByName<DataModel, TableName>;
+    }
+  | {
+      operation: "patch" | "replace";
+      oldDoc: DocumentByName<DataModel, TableName>;
+      newDoc: DocumentByName<DataModel, TableName>;
+    }
+  | {
+      operation: "delete";
+      oldDoc: DocumentByName<DataModel, TableName>;
+      newDoc: null;
+    }
+);
+
+/**
+ * A function to run after a document in the table changes.
+ * Its `ctx.db` also runs triggers, so writes from triggers trigger others.
+ */
+export type Trigger<
+  Ctx,
+  DataModel extends GenericDataModel,
+  TableName extends TableNamesInDataModel<DataModel>
+> = (
+  ctx: Ctx & { db: GenericDatabaseWriter<DataModel> },
+  change: Change<DataModel, TableName>
+) => void | Promise<void>;
+
+/**
+ * Triggers for each table, run in order after each write to the table.
+ */
+export type Triggers<Ctx, DataModel extends GenericDataModel> = Partial<{
+  [T in TableNamesInDataModel<DataModel>]: Trigger<Ctx, DataModel, T>[];
+}>;
+
+/**
+ * Options for `wrapDatabaseWriterWithTriggers`.
+ */
+export type TriggerOptions = {
+  /**
+   * How many levels deep triggers can cause other triggers to run, e.g. a
+   * trigger on posts updating users, whose trigger updates posts, and so on.
+   * An error is thrown past this, to stop infinite loops. Defaults to 10.
+   */
+  maxDepth?: number;
+};
+
+/**
+ * Wrap a database writer to run triggers after each write.
+ *
+ * @param ctx The ctx to pass to triggers, with `db` replaced.
+ * @param db The database writer to wrap, e.g. `ctx.db`.
+ * @param triggers The triggers to run for each table.
+ * @param options How deep triggers can recurse.
+ * @returns A database writer with the same interface as `db`.
+ */
+export function wrapDatabaseWriterWithTriggers<
+  Ctx,
+  DataModel extends GenericDataModel
+>(
+  ctx: Ctx,
+  db: GenericDatabaseWriter<DataModel>,
+  triggers: Triggers<Ctx, DataModel>,
+  options?: TriggerOptions
+): GenericDatabaseWriter<DataModel> {
+  return new TriggerWriter(ctx, db, triggers, options?.maxDepth ?? 10, 0);
+}
+
+class TriggerWriter<Ctx, DataModel extends GenericDataModel>
+  implements GenericDatabaseWriter<DataModel>
+{
+  ctx: Ctx;
+  db: GenericDatabaseWriter<DataModel>;
+  system: GenericDatabaseWriter<DataModel>["system"];
+  triggers: Triggers<Ctx, DataModel>;
+  maxDepth: number;
+  depth: number;
+
+  constructor(
+    ctx: Ctx,
+    db: GenericDatabaseWriter<DataModel>,
+    triggers: Triggers<Ctx, DataModel>,
+    maxDepth: number,
+    depth: number
+  ) {
+    this.ctx = ctx;
+    this.db = db;
+    this.system = db.system;
+    this.triggers = triggers;
+    this.maxDepth = maxDepth;
+    this.depth = depth;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  // Null for documents in tables without triggers.
+  tableName(id: GenericId<string>): TableNamesInDataModel<DataModel> | null {
+    const tableNames = Object.keys(this.triggers);
+    for (const tableName of tableNames as TableNamesInDataModel<DataModel>[]) {
+      if (this.db.normalizeId(tableName, id)) {
+        return tableName;
+      }
+    }
+    return null;
+  }
+
+  async runTriggers<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    change: Change<DataModel, TableName>
+  ) {
+    const triggers = this.triggers[tableName];
+    if (!triggers?.length) {
+      return;
+    }
+    if (this.depth >= this.maxDepth) {
+      throw new Error(
+        `Triggers for ${tableName} ran more than ${this.maxDepth} levels ` +
+          "deep. Do triggers write to each other's tables in a loop?"
+      );
+    }
+    // Writes from triggers run triggers one level deeper.
+    const db = new TriggerWriter(
+      this.ctx,
+      this.db,
+      this.triggers,
+      this.maxDepth,
+      this.depth + 1
+    );
+    for (const trigger of triggers) {
+      await trigger({ ...this.ctx, db }, change);
+    }
+  }
+
+  async insert<TableName extends string>(
+    table: TableName,
+    value: any
+  ): Promise<any> {
+    const id = await this.db.insert(table, value);
+    const tableName = table as TableNamesInDataModel<DataModel>;
+    if (this.triggers[tableName]) {
+      const newDoc = (await this.db.get(id))!;
+      await this.runTriggers(tableName, {
+        operation: "insert",
+        id,
+        oldDoc: null,
+        newDoc,
+      });
+    }
+    return id;
+  }
+
+  async patch<TableName extends string>(
+    id: GenericId<TableName>,
+    value: Partial<any>
+  ): Promise<void> {
+    const tableName = this.tableName(id);
+    if (!tableName) {
+      return await this.db.patch(id, value);
+    }
+    const oldDoc = (await this.db.get(id))!;
+    await this.db.patch(id, value);
+    const newDoc = (await this.db.get(id))!;
+    await this.runTriggers(tableName, {
+      operation: "patch",
+      id,
+      oldDoc,
+      newDoc,
+    });
+  }
+
+  async replace<TableName extends string>(
+    id: GenericId<TableName>,
+    value: any
+  ): Promise<void> {
+    const tableName = this.tableName(id);
+    if (!tableName) {
+      return await this.db.replace(id, value);
+    }
+    const oldDoc = (await this.db.get(id))!;
+    await this.db.replace(id, value);
+    const newDoc = (await this.db.get(id))!;
+    await this.runTriggers(tableName, {
+      operation: "replace",
+      id,
+      oldDoc,
+      newDoc,
+    });
+  }
+
+  async delete(id: GenericId<string>): Promise<void> {
+    const tableName = this.tableName(id);
+    if (!tableName) {
+      return await this.db.delete(id);
+    }
+    const oldDoc = (await this.db.get(id))!;
+    await this.db.delete(id);
+    await this.runTriggers(tableName, {
+      operation: "delete",
+      id,
+      oldDoc,
+      newDoc: null,
+    });
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.db.get(id);
+  }
+
+  query<TableName extends string>(tableName: TableName): QueryInitializer<any> {
+    return this.db.query(tableName);
+  }
+}
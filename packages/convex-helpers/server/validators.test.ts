@@ -0,0 +1,96 @@
+import { v } from "convex/values";
+import { describe, expect, test } from "vitest";
+import {
+  applyArgTransforms,
+  defaulted,
+  describeFailure,
+  transformed,
+  validate,
+  validateAll,
+  validateFields,
+} from "./validators";
+
+describe("validate", () => {
+  const post = v.object({
+    title: v.string(),
+    tags: v.array(v.string()),
+    status: v.union(v.literal("draft"), v.literal("published")),
+    editor: v.optional(v.id("users")),
+  });
+
+  test("accepts matching values", () => {
+    expect(
+      validate(post, { title: "a", tags: ["b"], status: "draft" })
+    ).toBeNull();
+  });
+
+  test("describes the first mismatch", () => {
+    const failure = validate(post, {
+      title: "a",
+      tags: ["b", 2],
+      status: "draft",
+    });
+    expect(failure).toEqual({ path: ".tags[1]", expected: "string", value: 2 });
+    expect(describeFailure(failure!)).toBe(
+      ".tags[1]: expected string, got number"
+    );
+    expect(validate(post, { title: "a", tags: [], status: "x" })).toMatchObject(
+      { path: ".status", expected: '"draft" | "published"' }
+    );
+  });
+
+  test("rejects missing and extra fields", () => {
+    expect(validate(post, { title: "a", status: "draft" })).toMatchObject({
+      path: ".tags",
+      expected: "a value",
+    });
+    expect(validateFields({ a: v.number() }, { a: 1, b: 2 })).toMatchObject({
+      path: ".b",
+      expected: "no field",
+    });
+    expect(validateFields({ a: v.number() }, { a: 1, b: 2 }, true)).toBeNull();
+  });
+});
+
+describe("validateAll", () => {
+  test("finds every failure, each under its own path", () => {
+    const validator = v.object({
+      a: v.string(),
+      b: v.array(v.number()),
+      c: v.object({ d: v.boolean() }),
+    });
+    const failures = validateAll(validator, {
+      a: 1,
+      b: [1, "x", "y"],
+      c: { d: true },
+    });
+    expect(failures.map((f) => f.path)).toEqual([".a", ".b[1]", ".b[2]"]);
+  });
+});
+
+describe("transforms", () => {
+  test("apply defaults and transforms in order", () => {
+    const args = {
+      limit: defaulted(v.number(), 20),
+      email: transformed(v.string(), (s) => s.toLowerCase()),
+      name: transformed(v.optional(v.string()), (s) => s.trim()),
+    };
+    expect(applyArgTransforms(args, { email: "A@B.COM" })).toEqual({
+      limit: 20,
+      email: "a@b.com",
+    });
+    expect(
+      applyArgTransforms(args, { email: "x", limit: 5, name: " n " })
+    ).toEqual({ limit: 5, email: "x", name: "n" });
+  });
+
+  test("don't change the validator passed in", () => {
+    const inner = v.object({ a: v.optional(v.string()) });
+    const copy = transformed(inner, (o) => o.a);
+    expect(copy).not.toBe(inner);
+    expect("transforms" in inner).toBe(false);
+    expect(validate(copy, { a: "x" })).toBeNull();
+    expect(validate(copy, { a: 1 })).toMatchObject({ path: ".a" });
+    expect(copy.optional).toBe(false);
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * Runtime checks for Convex validators (`v.*` from "convex/values").
+ *
+ * Convex validates function arguments and schema fields for you, but there are
+ * places where it's useful to check a value against a validator yourself, e.g.
+ * a function's return value or a document written to a `v.any()` table.
+ *
+ * Also has helpers for declaring argument defaults and transforms, which the
+ * custom function builders apply before calling `input` and the handler.
+ */
+import {
+  ObjectType,
+  PropertyValidators,
+  Validator,
+  jsonToConvex,
+  v,
+} from "convex/values";
+
+/**
+ * A description of where a value didn't match its validator.
+ */
+export type ValidationFailure = {
+  /** Path to the mismatched value, e.g. `.posts[2].title`. Empty for the root. */
+  path: string;
+  /** What the validator expected, e.g. "string" or "string | null". */
+  expected: string;
+  /** The value found at that path. */
+  value: unknown;
+};
+
+/**
+ * Check a value against a Convex validator.
+ *
+ * Note: `v.id` only checks that the value is a string, since the table can't
+ * be determined without a database.
+ *
+ * @param validator A Convex validator, e.g. `v.object({ a: v.string() })`.
+ * @param value The value to check.
+ * @returns The first failure found, or null if the value matches.
+ */
+export function validate(
+  validator: Validator<any, any, any>,
+  value: unknown
+): ValidationFailure | null {
+  if (value === undefined) {
+    return validator.optional ? null : { path: "", expected: "a value", value };
+  }
+  return validateJson(validatorJson(validator), value, "");
+}
+
+/**
+ * Like `validate`, but finds every failure instead of stopping at the first.
+ * Within a union, only the union itself is reported.
+ *
+ * @param validator A Convex validator, e.g. `v.object({ a: v.string() })`.
+ * @param value The value to check.
+ * @returns All failures found, empty if the value matches.
+ */
+export function validateAll(
+  validator: Validator<any, any, any>,
+  value: unknown
+): ValidationFailure[] {
+  if (value === undefined) {
+    return validator.optional ? [] : [{ path: "", expected: "a value", value }];
+  }
+  const failures: ValidationFailure[] = [];
+  validateJson(validatorJson(validator), value, "", false, failures);
+  return failures;
+}
+
+/**
+ * Check that every field in an object matches the corresponding validator,
+ * as you'd pass to `args` or `defineTable`.
+ *
+ * @param validators Object mapping field names to Convex validators.
+ * @param value The object to check.
+ * @param allowExtra Whether to allow fields not listed in `validators`.
+ * @returns The first failure found, or null if the value matches.
+ */
+export function validateFields(
+  validators: Record<string, Validator<any, any, any>>,
+  value: Record<string, unknown>,
+  allowExtra = false
+): ValidationFailure | null {
+  return validateJson(fieldsJson(validators), value, "", allowExtra);
+}
+
+/**
+ * Like `validateFields`, but finds every failure instead of stopping at the
+ * first.
+ *
+ * @param validators Object mapping field names to Convex validators.
+ * @param value The object to check.
+ * @param allowExtra Whether to allow fields not listed in `validators`.
+ * @returns All failures found, empty if the value matches.
+ */
+export function validateFieldsAll(
+  validators: Record<string, Validator<any, any, any>>,
+  value: Record<string, unknown>,
+  allowExtra = false
+): ValidationFailure[] {
+  const failures: ValidationFailure[] = [];
+  validateJson(fieldsJson(validators), value, "", allowExtra, failures);
+  return failures;
+}
+
+/**
+ * Format a failure as a human-readable message.
+ * @param failure The result of `validate` or `validateFields`.
+ * @returns e.g. `.user.name: expected string, got number`
+ */
+export function describeFailure(failure: ValidationFailure): string {
+  return `${failure.path || "value"}: expected ${
+    failure.expected
+  }, got ${describeValue(failure.value)}`;
+}
+
+// The serialized form of a validator. It's not part of the public types, but
+// it's what Convex sends to the server to validate arguments.
+type ValidatorJson = { type: string; [key: string]: any };
+
+// The only place we read a validator's internals. As of convex 1.7, validators
+// keep their serialized form in a `json` property. If that changes, this
+// throws rather than letting every value validate.
+function validatorJson(validator: Validator<any, any, any>): ValidatorJson {
+  const { json } = validator as Validator<any, any, any> & {
+    json?: ValidatorJson;
+  };
+  if (typeof json?.type !== "string") {
+    throw new Error(
+      "Can't read the validator's definition: this version of convex " +
+        "isn't supported by convex-helpers/server/validators."
+    );
+  }
+  return json;
+}
+
+// Build a validator from its serialized form with `v`, e.g. to copy one.
+function validatorFromJson(json: ValidatorJson): Validator<any, false, any> {
+  switch (json.type) {
+    case "any":
+      return v.any();
+    case "null":
+      return v.null();
+    case "id":
+      return v.id(json.tableName);
+    case "string":
+      return v.string();
+    case "number":
+      return v.number();
+    case "bigint":
+      return v.int64();
+    case "boolean":
+      return v.boolean();
+    case "bytes":
+      return v.bytes();
+    case "literal":
+      return v.literal(jsonToConvex(json.value) as string | number | boolean);
+    case "array":
+      return v.array(validatorFromJson(json.value));
+    case "object":
+      return v.object(
+        Object.fromEntries(
+          Object.entries(
+            json.value as Record<
+              string,
+              { fieldType: ValidatorJson; optional: boolean }
+            >
+          ).map(([key, field]) => {
+            const fieldValidator = validatorFromJson(field.fieldType);
+            return [
+              key,
+              field.optional ? v.optional(fieldValidator) : fieldValidator,
+            ];
+          })
+        )
+      );
+    case "record": {
+      // `v.record` isn't in every version's types.
+      const { record } = v as typeof v & {
+        record?: (
+          keys: Validator<any, false, any>,
+          values: Validator<any, boolean, any>
+        ) => Validator<any, false, any>;
+      };
+      if (!record) {
+        throw new Error("This version of convex doesn't support v.record");
+      }
+      const values = validatorFromJson(json.values.fieldType);
+      return record(
+        validatorFromJson(json.keys),
+        json.values.optional ? v.optional(values) : values
+      );
+    }
+    case "union": {
+      const union = v.union as (
+        ...members: Validator<any, false, any>[]
+      ) => Validator<any, false, any>;
+      return union(...(json.value as ValidatorJson[]).map(validatorFromJson));
+    }
+    default:
+      throw new Error(`Unknown validator type: ${json.type}`);
+  }
+}
+
+function fieldsJson(
+  validators: Record<string, Validator<any, any, any>>
+): ValidatorJson {
+  return {
+    type: "object",
+    value: Object.fromEntries(
+      Object.entries(validators).map(([k, v]) => [
+        k,
+        { fieldType: validatorJson(v), optional: v.optional },
+      ])
+    ),
+  };
+}
+
+// If `failures` is passed, failures within arrays, objects, and records are
+// all added to it, rather than returning the first one.
+function validateJson(
+  json: ValidatorJson,
+  value: unknown,
+  path: string,
+  allowExtra = false,
+  failures?: ValidationFailure[]
+): ValidationFailure | null {
+  const fail = (expected: string, at = path, found = value) => {
+    const failure = { path: at, expected, value: found };
+    failures?.push(failure);
+    return failure;
+  };
+  // When collecting, the first failure this call added, ignoring siblings'.
+  const start = failures?.length ?? 0;
+  const firstAdded = () => failures?.[start] ?? null;
+  switch (json.type) {
+    case "any":
+      return null;
+    case "null":
+      return value === null ? null : fail("null");
+    case "id":
+      return typeof value === "string" ? null : fail(`Id<"${json.tableName}">`);
+    case "string":
+    case "number":
+    case "bigint":
+    case "boolean":
+      return typeof value === json.type ? null : fail(json.type);
+    case "bytes":
+      return value instanceof ArrayBuffer ? null : fail("bytes");
+    case "literal": {
+      const literal = jsonToConvex(json.value);
+      return value === literal ? null : fail(JSON.stringify(String(literal)));
+    }
+    case "array": {
+      if (!Array.isArray(value)) return fail("array");
+      for (let i = 0; i < value.length; i++) {
+        const failure = validateJson(
+          json.value,
+          value[i],
+          `${path}[${i}]`,
+          false,
+          failures
+        );
+        if (failure && !failures) return failure;
+      }
+      return firstAdded();
+    }
+    case "object": {
+      if (!isPlainObject(value)) return fail("object");
+      for (const [key, field] of Object.entries(
+        json.value as Record<
+          string,
+          { fieldType: ValidatorJson; optional: boolean }
+        >
+      )) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+          if (field.optional) continue;
+          const failure = fail("a value", `${path}.${key}`, undefined);
+          if (!failures) return failure;
+          continue;
+        }
+        const failure = validateJson(
+          field.fieldType,
+          fieldValue,
+          `${path}.${key}`,
+          false,
+          failures
+        );
+        if (failure && !failures) return failure;
+      }
+      if (!allowExtra) {
+        for (const key of Object.keys(value)) {
+          if (!(key in json.value) && value[key] !== undefined) {
+            const failure = fail("no field", `${path}.${key}`, value[key]);
+            if (!failures) return failure;
+          }
+        }
+      }
+      return firstAdded();
+    }
+    case "record": {
+      if (!isPlainObject(value)) return fail("record");
+      for (const [key, fieldValue] of Object.entries(value)) {
+        const keyFailure = validateJson(json.keys, key, `${path}.${key}`);
+        if (keyFailure) {
+          const failure = fail(
+            `key ${keyFailure.expected}`,
+            keyFailure.path,
+            key
+          );
+          if (!failures) return failure;
+          continue;
+        }
+        if (fieldValue === undefined && json.values.optional) continue;
+        const failure = validateJson(
+          json.values.fieldType,
+          fieldValue,
+          `${path}.${key}`,
+          false,
+          failures
+        );
+        if (failure && !failures) return failure;
+      }
+      return firstAdded();
+    }
+    case "union": {
+      const members = json.value as ValidatorJson[];
+      if (members.some((member) => !validateJson(member, value, path))) {
+        return null;
+      }
+      return fail(members.map((member) => describeJson(member)).join(" | "));
+    }
+    default:
+      throw new Error(`Unknown validator type: ${json.type}`);
+  }
+}
+
+function describeJson(json: ValidatorJson): string {
+  switch (json.type) {
+    case "literal":
+      return JSON.stringify(String(jsonToConvex(json.value)));
+    case "id":
+      return `Id<"${json.tableName}">`;
+    case "array":
+      return `${describeJson(json.value)}[]`;
+    default:
+      return json.type;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof ArrayBuffer) return "bytes";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof ArrayBuffer)
+  );
+}
+
+/**
+ * A validator with defaults or transforms to apply to the argument's value
+ * before it's passed to a custom function's `input` or handler.
+ * The argument is validated as `Input` from the client, and the function sees
+ * it as `Output`.
+ */
+export type TransformedValidator<
+  Input,
+  IsOptional extends boolean,
+  Output,
+  OutputIsOptional extends boolean
+> = Validator<Input, IsOptional, any> & {
+  transforms: ((value: any) => any)[];
+  // Only used for types: how the argument looks after transforms.
+  output?: Validator<Output, OutputIsOptional, never>;
+};
+
+type OutputValidator<V extends Validator<any, any, any>> = V extends {
+  output?: infer Out;
+}
+  ? Out extends Validator<any, any, any>
+    ? Out
+    : V
+  : V;
+
+/**
+ * Like ObjectType, but the type of the arguments after defaults and
+ * transforms are applied. This is what `input` and handlers receive.
+ */
+export type ArgsOutput<Validators extends PropertyValidators> = ObjectType<{
+  [K in keyof Validators]: OutputValidator<Validators[K]>;
+}>;
+
+/**
+ * Make an argument optional for the client, using a default value if it isn't
+ * provided.
+ *
+ * e.g. `args: { limit: defaulted(v.number(), 20) }` lets the client omit
+ * `limit`, and the handler sees `args.limit` as a `number`.
+ *
+ * Note: The same default value is passed to every call, so avoid mutating it.
+ * @param validator The validator for the argument.
+ * @param value The value to use if the argument is undefined. If the
+ *   validator has transforms, this is used as-is after them.
+ * @returns A validator to use in `args` for custom functions.
+ */
+export function defaulted<V extends Validator<any, any, any>>(
+  validator: V,
+  value: Exclude<OutputValidator<V>["type"], undefined>
+): TransformedValidator<
+  V["type"] | undefined,
+  true,
+  Exclude<OutputValidator<V>["type"], undefined>,
+  false
+> {
+  return Object.assign(v.optional(validator as Validator<any, false, any>), {
+    transforms: [
+      ...transformsOf(validator),
+      (arg: unknown) => (arg === undefined ? value : arg),
+    ],
+  });
+}
+
+/**
+ * Transform an argument before it's passed to a custom function.
+ * The function should be pure, e.g. trimming a string or lowercasing an email.
+ *
+ * e.g. `args: { email: transformed(v.string(), (s) => s.toLowerCase()) }`
+ *
+ * @param validator The validator for the argument as sent by the client.
+ * @param transform Called with the argument's value, if it's defined.
+ * @returns A validator to use in `args` for custom functions.
+ */
+export function transformed<V extends Validator<any, any, any>, Output>(
+  validator: V,
+  transform: (value: Exclude<OutputValidator<V>["type"], undefined>) => Output
+): TransformedValidator<
+  V["type"],
+  V["isOptional"],
+  V["isOptional"] extends true ? Output | undefined : Output,
+  V["isOptional"]
+> {
+  const copy = validator.optional
+    ? v.optional(validator as Validator<any, false, any>)
+    : validatorFromJson(validatorJson(validator));
+  return Object.assign(copy, {
+    transforms: [
+      ...transformsOf(validator),
+      (arg: any) => (arg === undefined ? arg : transform(arg)),
+    ],
+  });
+}
+
+/**
+ * Apply the defaults and transforms declared with `defaulted` and
+ * `transformed` to arguments.
+ *
+ * @param validators The argument validators, e.g. a function's `args`.
+ * @param args The arguments as sent by the client.
+ * @returns The arguments with defaults and transforms applied.
+ */
+export function applyArgTransforms<Validators extends PropertyValidators>(
+  validators: Validators,
+  args: ObjectType<Validators>
+): ArgsOutput<Validators> {
+  const result: Record<string, any> = { ...args };
+  for (const [key, validator] of Object.entries(validators)) {
+    for (const transform of transformsOf(validator)) {
+      result[key] = transform(result[key]);
+    }
+    if (result[key] === undefined) {
+      delete result[key];
+    }
+  }
+  return result as ArgsOutput<Validators>;
+}
+
+function transformsOf(
+  validator: Validator<any, any, any> | TransformedValidator<any, any, any, any>
+): ((value: any) => any)[] {
+  return "transforms" in validator ? validator.transforms : [];
+}
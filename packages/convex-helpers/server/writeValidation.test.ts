@@ -0,0 +1,105 @@
+import { ConvexError, v } from "convex/values";
+import { describe, expect, test } from "vitest";
+import { z } from "zod";
+import { fakeDb } from "../test/fakeDb";
+import {
+  WriteValidationErrorData,
+  wrapDatabaseWriterWithValidation,
+} from "./writeValidation";
+
+const setup = () => {
+  const raw = fakeDb();
+  const db = wrapDatabaseWriterWithValidation(raw, {
+    sessions: { userId: v.string(), expiresAt: v.number() },
+    events: v.union(
+      v.object({ kind: v.literal("click"), x: v.number() }),
+      v.object({ kind: v.literal("key"), key: v.string() })
+    ),
+    presence: z.object({ user: z.string(), data: z.object({ n: z.number() }) }),
+  });
+  return { raw, db };
+};
+
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error("Expected the write to fail");
+    },
+    (e: ConvexError<WriteValidationErrorData>) => e
+  );
+
+describe("wrapDatabaseWriterWithValidation", () => {
+  test("validates inserts and replaces", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("sessions", { userId: "u", expiresAt: 1 });
+    await expect(
+      db.insert("sessions", { userId: "u", expiresAt: "soon" })
+    ).rejects.toThrow(
+      "Invalid sessions document: .expiresAt: expected number, got string"
+    );
+    await expect(db.replace(id, { userId: "u" })).rejects.toThrow(".expiresAt");
+    await db.replace(id, { userId: "v", expiresAt: 2 });
+    expect(raw.tables.sessions).toHaveLength(1);
+  });
+
+  test("validates patches against the merged document", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("sessions", { userId: "u", expiresAt: 1 });
+    // The patch alone is missing userId, but the document isn't.
+    await db.patch(id, { expiresAt: 2 });
+    await expect(db.patch(id, { userId: 3 })).rejects.toThrow(
+      ".userId: expected string, got number"
+    );
+    // Patching a field to undefined removes it.
+    await expect(db.patch(id, { expiresAt: undefined })).rejects.toThrow(
+      ".expiresAt"
+    );
+    expect(raw.tables.sessions[0]).toMatchObject({
+      userId: "u",
+      expiresAt: 2,
+    });
+  });
+
+  test("lists every failure in the ConvexError", async () => {
+    const { db } = setup();
+    const error = await failure(
+      db.insert("sessions", { userId: 1, expiresAt: "soon", extra: true })
+    );
+    expect(error).toBeInstanceOf(ConvexError);
+    expect(error.data.code).toBe("INVALID_ARGUMENT");
+    expect(error.data.data.table).toBe("sessions");
+    expect(error.data.data.failures.map((f) => f.path)).toEqual([
+      ".userId",
+      ".expiresAt",
+      ".extra",
+    ]);
+  });
+
+  test("validates whole documents with Convex validators", async () => {
+    const { db } = setup();
+    await db.insert("events", { kind: "click", x: 1 });
+    await expect(
+      db.insert("events", { kind: "click", key: "a" })
+    ).rejects.toThrow("Invalid events document");
+  });
+
+  test("validates with Zod schemas", async () => {
+    const { db } = setup();
+    const id = await db.insert("presence", { user: "u", data: { n: 1 } });
+    const error = await failure(db.patch(id, { data: { n: "one" } }));
+    expect(error.data.data.failures).toEqual([
+      {
+        path: ".data.n",
+        message: ".data.n: Expected number, received string",
+      },
+    ]);
+  });
+
+  test("doesn't validate other tables", async () => {
+    const { raw, db } = setup();
+    const id = await db.insert("notes", { anything: 1 });
+    await db.patch(id, { anything: "goes" });
+    await db.delete(id);
+    expect(raw.tables.notes).toEqual([]);
+  });
+});
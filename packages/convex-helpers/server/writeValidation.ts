@@ -0,0 +1,229 @@
+/**
+ * Validate documents as they're written, for tables whose schema doesn't, e.g.
+ * `defineTable(v.any())` or a `v.any()` field.
+ *
+ * ```js
+ * const validatedMutation = customMutation(
+ *   mutation,
+ *   customCtx((ctx) => ({
+ *     db: wrapDatabaseWriterWithValidation(ctx.db, {
+ *       // Convex validators for each field, as you'd pass to defineTable.
+ *       sessions: { userId: v.id("users"), expiresAt: v.number() },
+ *       // Or a Zod schema for the whole document.
+ *       presence: z.object({
+ *         user: z.string(),
+ *         room: z.string(),
+ *         updated: z.number(),
+ *         data: z.object({ typing: z.boolean() }),
+ *       }),
+ *     }),
+ *   }))
+ * );
+ * ```
+ */
+import {
+  GenericDataModel,
+  GenericDatabaseWriter,
+  QueryInitializer,
+  TableNamesInDataModel,
+} from "convex/server";
+import {
+  ConvexError,
+  GenericId,
+  PropertyValidators,
+  Validator,
+} from "convex/values";
+import { ZodTypeAny } from "zod";
+import { AppErrorData, appError } from "./errors";
+import {
+  ValidationFailure,
+  describeFailure,
+  validateAll,
+  validateFieldsAll,
+} from "./validators";
+
+/**
+ * How to validate a table's documents, without system fields:
+ * - Convex validators for each field, as you'd pass to `defineTable`.
+ * - A Convex validator for the whole document, e.g. `v.union(...)`.
+ * - A Zod schema for the whole document. Note `z.object` allows extra fields
+ *   unless you use `.strict()`.
+ */
+export type DocumentValidator =
+  | PropertyValidators
+  | Validator<any, any, any>
+  | ZodTypeAny;
+
+/**
+ * Validators for each table. Tables not listed aren't validated.
+ */
+export type WriteValidators<DataModel extends GenericDataModel> = Partial<
+  Record<TableNamesInDataModel<DataModel>, DocumentValidator>
+>;
+
+/**
+ * The `data` of the `ConvexError` thrown when a write doesn't validate.
+ */
+export type WriteValidationErrorData = AppErrorData<"INVALID_ARGUMENT"> & {
+  data: {
+    table: string;
+    failures: { path: string; message: string }[];
+  };
+};
+
+/**
+ * Wrap a database writer to validate documents before they're inserted,
+ * patched, or replaced. Patches are validated against the document as it
+ * would be after the patch.
+ *
+ * If a document doesn't validate, a `ConvexError` is thrown with
+ * `WriteValidationErrorData`, listing the path of each failing field.
+ *
+ * @param db The database writer to wrap, e.g. `ctx.db`.
+ * @param validators How to validate each table's documents.
+ * @returns A database writer with the same interface as `db`.
+ */
+export function wrapDatabaseWriterWithValidation<
+  DataModel extends GenericDataModel
+>(
+  db: GenericDatabaseWriter<DataModel>,
+  validators: WriteValidators<DataModel>
+): GenericDatabaseWriter<DataModel> {
+  return new ValidatingWriter(db, validators);
+}
+
+type Failure = { path: string; message: string };
+
+function checkDocument(validator: DocumentValidator, doc: any): Failure[] {
+  if (isZod(validator)) {
+    const result = validator.safeParse(doc);
+    if (result.success) {
+      return [];
+    }
+    return result.error.issues.map((issue) => {
+      const path = issue.path
+        .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+        .join("");
+      return { path, message: `${path || "value"}: ${issue.message}` };
+    });
+  }
+  const failures: ValidationFailure[] = isValidator(validator)
+    ? validateAll(validator, doc)
+    : validateFieldsAll(validator, doc);
+  return failures.map((failure) => ({
+    path: failure.path,
+    message: describeFailure(failure),
+  }));
+}
+
+function isZod(validator: DocumentValidator): validator is ZodTypeAny {
+  return typeof (validator as any).safeParse === "function";
+}
+
+function isValidator(
+  validator: DocumentValidator
+): validator is Validator<any, any, any> {
+  return validator instanceof Validator;
+}
+
+class ValidatingWriter<DataModel extends GenericDataModel>
+  implements GenericDatabaseWriter<DataModel>
+{
+  db: GenericDatabaseWriter<DataModel>;
+  system: GenericDatabaseWriter<DataModel>["system"];
+  validators: WriteValidators<DataModel>;
+
+  constructor(
+    db: GenericDatabaseWriter<DataModel>,
+    validators: WriteValidators<DataModel>
+  ) {
+    this.db = db;
+    this.system = db.system;
+    this.validators = validators;
+  }
+
+  normalizeId<TableName extends TableNamesInDataModel<DataModel>>(
+    tableName: TableName,
+    id: string
+  ): GenericId<TableName> | null {
+    return this.db.normalizeId(tableName, id);
+  }
+
+  tableName(id: GenericId<string>): TableNamesInDataModel<DataModel> | null {
+    const tableNames = Object.keys(this.validators);
+    for (const tableName of tableNames as TableNamesInDataModel<DataModel>[]) {
+      if (this.db.normalizeId(tableName, id)) {
+        return tableName;
+      }
+    }
+    return null;
+  }
+
+  check(tableName: TableNamesInDataModel<DataModel>, doc: Record<string, any>) {
+    const validator = this.validators[tableName];
+    if (!validator) {
+      return;
+    }
+    // Like Convex, treat undefined fields as missing.
+    const fields = Object.fromEntries(
+      Object.entries(doc).filter(
+        ([key, value]) =>
+          value !== undefined && key !== "_id" && key !== "_creationTime"
+      )
+    );
+    const failures = checkDocument(validator, fields);
+    if (failures.length > 0) {
+      throw appError(
+        "INVALID_ARGUMENT",
+        `Invalid ${tableName} document: ` +
+          failures.map((f) => f.message).join("; "),
+        { table: tableName, failures }
+      ) as ConvexError<WriteValidationErrorData>;
+    }
+  }
+
+  async insert<TableName extends string>(
+    table: TableName,
+    value: any
+  ): Promise<any> {
+    this.check(table as TableNamesInDataModel<DataModel>, value);
+    return await this.db.insert(table, value);
+  }
+
+  async patch<TableName extends string>(
+    id: GenericId<TableName>,
+    value: Partial<any>
+  ): Promise<void> {
+    const tableName = this.tableName(id);
+    if (tableName) {
+      const existing = await this.db.get(id);
+      if (existing) {
+        this.check(tableName, { ...existing, ...value });
+      }
+    }
+    return await this.db.patch(id, value);
+  }
+
+  async replace<TableName extends string>(
+    id: GenericId<TableName>,
+    value: any
+  ): Promise<void> {
+    const tableName = this.tableName(id);
+    if (tableName) {
+      this.check(tableName, value);
+    }
+    return await this.db.replace(id, value);
+  }
+
+  async delete(id: GenericId<string>): Promise<void> {
+    return await this.db.delete(id);
+  }
+
+  get<TableName extends string>(id: GenericId<TableName>): Promise<any> {
+    return this.db.get(id);
+  }
+
+  query<TableName extends string>(tableName: TableName): QueryInitializer<any> {
+    return this.db.query(tableName);
+  }
+}
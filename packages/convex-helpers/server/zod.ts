@@ -22,8 +22,16 @@ import {
   NoOp,
   Registration,
   UnvalidatedBuilder,
+  runWithModHooks,
   splitArgs,
 } from "./customFunctions";
+import {
+  FunctionMetadata,
+  functionRegistry,
+  mergeMetadata,
+  visibilityOf,
+} from "./registry";
+import { applyArgTransforms } from "./validators";
 
 export type ZodValidator = Record<string, z.ZodTypeAny>;
 
@@ -103,57 +111,7 @@ export function zCustomQuery<
   query: QueryBuilder<DataModel, Visibility>,
   mod: Mod<GenericQueryCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>
 ) {
-  // Looking forward to when input / args / ... are optional
-  const inputMod = mod.input ?? NoOp.input;
-  const inputArgs = mod.args ?? NoOp.args;
-  function customQueryBuilder(fn: any): any {
-    if ("args" in fn) {
-      const convexValidator = zodToConvexFields(fn.args);
-      return query({
-        args: {
-          ...convexValidator,
-          ...inputArgs,
-        },
-        handler: async (ctx, allArgs: any) => {
-          const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          const parsed = z.object(fn.args).safeParse(rest);
-          if (!parsed.success) {
-            throw new ConvexError({
-              ZodError: JSON.parse(
-                JSON.stringify(parsed.error.errors, null, 2)
-              ),
-            });
-          }
-          const result = await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...parsed.data, ...added.args }
-          );
-          if (fn.output) {
-            // We don't catch the error here. It's a developer error and we
-            // don't want to risk exposing the unexpected value to the client.
-            return fn.output.parse(result);
-          }
-          return result;
-        },
-      });
-    }
-    if (Object.keys(inputArgs).length > 0) {
-      throw new Error(
-        "If you're using a custom function with arguments for the input " +
-          "modifier, you must declare the arguments for the function too."
-      );
-    }
-    const handler = fn.handler ?? fn;
-    return query({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
-      },
-    });
-  }
-
-  return customQueryBuilder as CustomBuilder<
+  return customFnBuilder(query, mod, "query") as CustomBuilder<
     "query",
     ModArgsValidator,
     ModCtx,
@@ -227,57 +185,7 @@ export function zCustomMutation<
   mutation: MutationBuilder<DataModel, Visibility>,
   mod: Mod<GenericMutationCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>
 ) {
-  // Looking forward to when input / args / ... are optional
-  const inputMod = mod.input ?? NoOp.input;
-  const inputArgs = mod.args ?? NoOp.args;
-  function customMutationBuilder(fn: any): any {
-    if ("args" in fn) {
-      const convexValidator = zodToConvexFields(fn.args);
-      return mutation({
-        args: {
-          ...convexValidator,
-          ...inputArgs,
-        },
-        handler: async (ctx, allArgs: any) => {
-          const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          const parsed = z.object(fn.args).safeParse(rest);
-          if (!parsed.success) {
-            throw new ConvexError({
-              ZodError: JSON.parse(
-                JSON.stringify(parsed.error.errors, null, 2)
-              ),
-            });
-          }
-          const result = await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...parsed.data, ...added.args }
-          );
-          if (fn.output) {
-            // We don't catch the error here. It's a developer error and we
-            // don't want to risk exposing the unexpected value to the client.
-            return fn.output.parse(result);
-          }
-          return result;
-        },
-      });
-    }
-    if (Object.keys(inputArgs).length > 0) {
-      throw new Error(
-        "If you're using a custom function with arguments for the input " +
-          "modifier, you must declare the arguments for the function too."
-      );
-    }
-    const handler = fn.handler ?? fn;
-    return mutation({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
-      },
-    });
-  }
-
-  return customMutationBuilder as CustomBuilder<
+  return customFnBuilder(mutation, mod, "mutation") as CustomBuilder<
     "mutation",
     ModArgsValidator,
     ModCtx,
@@ -350,39 +258,95 @@ export function zCustomAction<
 >(
   action: ActionBuilder<DataModel, Visibility>,
   mod: Mod<GenericActionCtx<DataModel>, ModArgsValidator, ModCtx, ModMadeArgs>
+) {
+  return customFnBuilder(action, mod, "action") as CustomBuilder<
+    "action",
+    ModArgsValidator,
+    ModCtx,
+    ModMadeArgs,
+    GenericActionCtx<DataModel>,
+    Visibility
+  >;
+}
+
+/**
+ * The shared implementation of zCustomQuery, zCustomMutation, and
+ * zCustomAction.
+ *
+ * @param builder The function builder, e.g. `query` or `internalMutation`.
+ * @param mod The modifier to be applied to the function.
+ * @param type The kind of function the builder defines, for the registry.
+ * @returns A builder that applies the mod and validates args with zod.
+ */
+function customFnBuilder(
+  builder: (fn: any) => any,
+  mod: Mod<any, any, any, any>,
+  type: "query" | "mutation" | "action"
 ) {
   // Looking forward to when input / args / ... are optional
   const inputMod = mod.input ?? NoOp.input;
   const inputArgs = mod.args ?? NoOp.args;
-  function customActionBuilder(fn: any): any {
+  return function customBuilder(fn: any): any {
+    const registration = buildFunction(fn);
+    functionRegistry.record(registration, {
+      type,
+      visibility: visibilityOf(registration),
+      args:
+        "args" in fn ? { ...zodToConvexFields(fn.args), ...inputArgs } : null,
+      meta: mergeMetadata(mod.meta ?? {}, fn.meta ?? {}),
+    });
+    return registration;
+  };
+
+  function buildFunction(fn: any) {
     if ("args" in fn) {
       const convexValidator = zodToConvexFields(fn.args);
-      return action({
+      return builder({
         args: {
           ...convexValidator,
           ...inputArgs,
         },
-        handler: async (ctx, allArgs: any) => {
+        handler: async (ctx: any, allArgs: any) => {
           const { split, rest } = splitArgs(inputArgs, allArgs);
-          const added = await inputMod(ctx, split);
-          const parsed = z.object(fn.args).safeParse(rest);
-          if (!parsed.success) {
-            throw new ConvexError({
-              ZodError: JSON.parse(
-                JSON.stringify(parsed.error.errors, null, 2)
-              ),
-            });
-          }
-          const result = await fn.handler(
-            { ...ctx, ...added.ctx },
-            { ...parsed.data, ...added.args }
-          );
-          if (fn.output) {
-            // We don't catch the error here. It's a developer error and we
-            // don't want to risk exposing the unexpected value to the client.
-            return fn.output.parse(result);
-          }
-          return result;
+          const {
+            ctx: modCtx,
+            args: modArgs,
+            ...hooks
+          } = await inputMod(ctx, applyArgTransforms(inputArgs, split));
+          const parseArgs = () => {
+            const parsed = z.object(fn.args).safeParse(rest);
+            if (!parsed.success) {
+              throw new ConvexError({
+                ZodError: JSON.parse(
+                  JSON.stringify(parsed.error.errors, null, 2)
+                ),
+              });
+            }
+            return parsed.data;
+          };
+          const { replaceHandler } = hooks;
+          // Parse within the hooks, so they see validation errors too.
+          const parsingHooks = {
+            ...hooks,
+            replaceHandler:
+              replaceHandler &&
+              (async () => {
+                parseArgs();
+                return await replaceHandler();
+              }),
+          };
+          return await runWithModHooks(parsingHooks, async () => {
+            const result = await fn.handler(
+              { ...ctx, ...modCtx },
+              { ...parseArgs(), ...modArgs }
+            );
+            if (fn.output) {
+              // We don't catch the error here. It's a developer error and we
+              // don't want to risk exposing the unexpected value to the client.
+              return fn.output.parse(result);
+            }
+            return result;
+          });
         },
       });
     }
@@ -393,22 +357,15 @@ export function zCustomAction<
       );
     }
     const handler = fn.handler ?? fn;
-    return action({
-      handler: async (ctx, args: any) => {
-        const { ctx: modCtx } = await inputMod(ctx, args);
-        return await handler({ ...ctx, ...modCtx }, args);
+    return builder({
+      handler: async (ctx: any, args: any) => {
+        const { ctx: modCtx, args: _, ...hooks } = await inputMod(ctx, args);
+        return await runWithModHooks(hooks, () =>
+          handler({ ...ctx, ...modCtx }, args)
+        );
       },
     });
   }
-
-  return customActionBuilder as CustomBuilder<
-    "action",
-    ModArgsValidator,
-    ModCtx,
-    ModMadeArgs,
-    GenericActionCtx<DataModel>,
-    Visibility
-  >;
 }
 
 /**
@@ -435,6 +392,10 @@ type ValidatedBuilder<
     ? z.input<ZodOutput> | Promise<z.input<ZodOutput>>
     : Output;
   output?: ZodOutput;
+  /**
+   * Metadata to record in the function registry, merged with the Mod's.
+   */
+  meta?: FunctionMetadata;
 }) => Registration<
   FuncType,
   Visibility,
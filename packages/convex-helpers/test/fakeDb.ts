@@ -0,0 +1,350 @@
+/**
+ * An in-memory stand-in for a Convex database, for tests of the helpers that
+ * wrap `ctx.db`. It supports the parts of the reader and writer interfaces
+ * the helpers use: indexes, filters, search, and pagination.
+ *
+ * Documents are ordered by their index fields, then `_creationTime`, like
+ * Convex. Pagination cursors are positions in that order, so they stay valid
+ * as documents are inserted and deleted.
+ */
+import { GenericDatabaseWriter } from "convex/server";
+
+type Doc = Record<string, any> & { _id: string; _creationTime: number };
+type Predicate = (doc: Doc) => boolean;
+
+/**
+ * The indexes for each table, as `{ indexName: fields }`. Every table also
+ * has "by_creation_time".
+ */
+export type FakeIndexes = Record<string, Record<string, string[]>>;
+
+export type FakeDb = GenericDatabaseWriter<any> & {
+  /** The documents in each table, for assertions. */
+  tables: Record<string, Doc[]>;
+  /** How many documents `get` has read, including missing ones. */
+  reads: number;
+};
+
+/**
+ * Make an empty in-memory database.
+ *
+ * @param indexes The indexes for each table, as in `defineTable`.
+ * @returns A database writer, with `tables` to inspect its documents.
+ */
+export function fakeDb(indexes: FakeIndexes = {}): FakeDb {
+  const tables: Record<string, Doc[]> = {};
+  let nextId = 0;
+  let now = 1000;
+  const table = (name: string) => (tables[name] ??= []);
+  const tableOf = (id: string) => id.split("|")[0];
+  const find = (id: string) => table(tableOf(id)).find((d) => d._id === id);
+  const mustFind = (id: string) => {
+    const doc = find(id);
+    if (!doc) {
+      throw new Error(`Delete on nonexistent document ID ${id}`);
+    }
+    return doc;
+  };
+  const withoutUndefined = (value: Record<string, any>) =>
+    Object.fromEntries(
+      Object.entries(value).filter(([, field]) => field !== undefined)
+    );
+
+  const db: FakeDb = {
+    tables,
+    reads: 0,
+    system: {
+      get: async () => null,
+      query: (name: string) => query(name),
+    } as any,
+    normalizeId: (tableName: string, id: string) =>
+      typeof id === "string" && tableOf(id) === tableName ? (id as any) : null,
+    get: async (id: any) => {
+      db.reads++;
+      const doc = find(id);
+      return doc ? structuredClone(doc) : null;
+    },
+    query: (name: string) => query(name) as any,
+    insert: async (name: string, value: any) => {
+      const _id = `${name}|${++nextId}`;
+      table(name).push({
+        ...structuredClone(withoutUndefined(value)),
+        _id,
+        _creationTime: now++,
+      });
+      return _id as any;
+    },
+    patch: async (id: any, value: any) => {
+      const doc = mustFind(id);
+      for (const [key, field] of Object.entries(structuredClone(value))) {
+        if (field === undefined) {
+          delete doc[key];
+        } else {
+          doc[key] = field;
+        }
+      }
+    },
+    replace: async (id: any, value: any) => {
+      const doc = mustFind(id);
+      const { _id, _creationTime } = doc;
+      for (const key of Object.keys(doc)) {
+        delete doc[key];
+      }
+      Object.assign(doc, structuredClone(withoutUndefined(value)), {
+        _id,
+        _creationTime,
+      });
+    },
+    delete: async (id: any) => {
+      const docs = table(tableOf(id));
+      docs.splice(docs.indexOf(mustFind(id)), 1);
+    },
+  };
+
+  const query = (name: string) => {
+    const indexFields = (indexName: string) => {
+      if (indexName === "by_creation_time") {
+        return ["_creationTime"];
+      }
+      const fields = indexes[name]?.[indexName];
+      if (!fields) {
+        throw new Error(`No index ${indexName} on ${name}`);
+      }
+      return [...fields, "_creationTime"];
+    };
+    return {
+      fullTableScan: () => new FakeQuery(() => table(name), ["_creationTime"]),
+      withIndex: (indexName: string, range?: (q: any) => any) => {
+        const predicates: Predicate[] = [];
+        const builder: any = {};
+        for (const op of ["eq", "gt", "gte", "lt", "lte"] as const) {
+          builder[op] = (field: string, value: any) => {
+            predicates.push((doc) => compareOp(op, doc[field], value));
+            return builder;
+          };
+        }
+        range?.(builder);
+        return new FakeQuery(
+          () => table(name).filter((doc) => predicates.every((p) => p(doc))),
+          indexFields(indexName)
+        );
+      },
+      withSearchIndex: (_indexName: string, search: (q: any) => any) => {
+        const predicates: Predicate[] = [];
+        const builder: any = {
+          search: (field: string, text: string) => {
+            const words = text.toLowerCase().split(/\s+/);
+            predicates.push((doc) =>
+              words.some((word) =>
+                String(doc[field] ?? "")
+                  .toLowerCase()
+                  .includes(word)
+              )
+            );
+            return builder;
+          },
+          eq: (field: string, value: any) => {
+            predicates.push((doc) => compareOp("eq", doc[field], value));
+            return builder;
+          },
+        };
+        search(builder);
+        return new FakeQuery(
+          () => table(name).filter((doc) => predicates.every((p) => p(doc))),
+          ["_creationTime"]
+        );
+      },
+      order: (order: "asc" | "desc") =>
+        new FakeQuery(() => table(name), ["_creationTime"]).order(order),
+      filter: (predicate: (q: any) => any) =>
+        new FakeQuery(() => table(name), ["_creationTime"]).filter(predicate),
+      paginate: (opts: any) =>
+        new FakeQuery(() => table(name), ["_creationTime"]).paginate(opts),
+      collect: () =>
+        new FakeQuery(() => table(name), ["_creationTime"]).collect(),
+      take: (n: number) =>
+        new FakeQuery(() => table(name), ["_creationTime"]).take(n),
+      first: () => new FakeQuery(() => table(name), ["_creationTime"]).first(),
+      unique: () =>
+        new FakeQuery(() => table(name), ["_creationTime"]).unique(),
+      [Symbol.asyncIterator]: () =>
+        new FakeQuery(() => table(name), ["_creationTime"])[
+          Symbol.asyncIterator
+        ](),
+    };
+  };
+  return db;
+}
+
+class FakeQuery {
+  private descending = false;
+  private predicates: Predicate[] = [];
+
+  constructor(private source: () => Doc[], private keyFields: string[]) {}
+
+  order(order: "asc" | "desc") {
+    this.descending = order === "desc";
+    return this;
+  }
+
+  filter(predicate: (q: any) => any) {
+    const expression = predicate(filterBuilder);
+    this.predicates.push((doc) => !!expression(doc));
+    return this;
+  }
+
+  private key(doc: Doc): any[] {
+    return [...this.keyFields.map((field) => doc[field]), doc._id];
+  }
+
+  // Documents in order, after the cursor's position if there is one.
+  private results(cursor?: any[]): Doc[] {
+    const sign = this.descending ? -1 : 1;
+    return this.source()
+      .filter((doc) => this.predicates.every((p) => p(doc)))
+      .filter(
+        (doc) => !cursor || compareValues(this.key(doc), cursor) * sign > 0
+      )
+      .sort((a, b) => compareValues(this.key(a), this.key(b)) * sign)
+      .map((doc) => structuredClone(doc));
+  }
+
+  async collect() {
+    return this.results();
+  }
+
+  async take(n: number) {
+    return this.results().slice(0, n);
+  }
+
+  async first() {
+    return this.results()[0] ?? null;
+  }
+
+  async unique() {
+    const results = this.results();
+    if (results.length > 1) {
+      throw new Error("unique() query returned more than one result");
+    }
+    return results[0] ?? null;
+  }
+
+  async paginate({
+    numItems,
+    cursor,
+  }: {
+    numItems: number;
+    cursor: string | null;
+  }) {
+    const position = cursor ? JSON.parse(cursor) : undefined;
+    const results = this.results(position ?? undefined);
+    const page = results.slice(0, numItems);
+    const isDone = results.length <= numItems;
+    const last = page[page.length - 1];
+    const continueCursor = last
+      ? JSON.stringify(this.key(last))
+      : cursor ?? JSON.stringify(null);
+    return { page, isDone, continueCursor };
+  }
+
+  [Symbol.asyncIterator]() {
+    let results: Doc[] | undefined;
+    let i = 0;
+    return {
+      next: async () => {
+        results ??= this.results();
+        return i < results.length
+          ? { done: false as const, value: results[i++] }
+          : { done: true as const, value: undefined };
+      },
+      return: async () => {
+        i = results?.length ?? 0;
+        return { done: true as const, value: undefined };
+      },
+    };
+  }
+}
+
+const filterBuilder = {
+  field: (path: string) => (doc: Doc) =>
+    path.split(".").reduce((value: any, key) => value?.[key], doc),
+  eq: binary((a, b) => compareValues(a, b) === 0),
+  neq: binary((a, b) => compareValues(a, b) !== 0),
+  lt: binary((a, b) => compareValues(a, b) < 0),
+  lte: binary((a, b) => compareValues(a, b) <= 0),
+  gt: binary((a, b) => compareValues(a, b) > 0),
+  gte: binary((a, b) => compareValues(a, b) >= 0),
+  and:
+    (...exprs: any[]) =>
+    (doc: Doc) =>
+      exprs.every((e) => evaluate(e, doc)),
+  or:
+    (...exprs: any[]) =>
+    (doc: Doc) =>
+      exprs.some((e) => evaluate(e, doc)),
+  not: (expr: any) => (doc: Doc) => !evaluate(expr, doc),
+};
+
+function binary(op: (a: any, b: any) => boolean) {
+  return (l: any, r: any) => (doc: Doc) =>
+    op(evaluate(l, doc), evaluate(r, doc));
+}
+
+function evaluate(expr: any, doc: Doc) {
+  return typeof expr === "function" ? expr(doc) : expr;
+}
+
+function compareOp(op: string, a: any, b: any) {
+  const c = compareValues(a, b);
+  switch (op) {
+    case "eq":
+      return c === 0;
+    case "gt":
+      return c > 0;
+    case "gte":
+      return c >= 0;
+    case "lt":
+      return c < 0;
+    default:
+      return c <= 0;
+  }
+}
+
+// Convex's ordering of values of different types.
+const typeOrder = [
+  "undefined",
+  "null",
+  "bigint",
+  "number",
+  "boolean",
+  "string",
+  "array",
+  "object",
+];
+
+function typeName(value: any) {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function compareValues(a: any, b: any): number {
+  const [ta, tb] = [typeName(a), typeName(b)];
+  if (ta !== tb) {
+    return typeOrder.indexOf(ta) - typeOrder.indexOf(tb);
+  }
+  if (ta === "array") {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const c = compareValues(a[i], b[i]);
+      if (c !== 0) {
+        return c;
+      }
+    }
+    return a.length - b.length;
+  }
+  if (ta === "object") {
+    return compareValues(JSON.stringify(a), JSON.stringify(b));
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}